@@ -69,4 +69,88 @@ describe("ApprovalQueue", () => {
     await expect(queue.requestApproval(() => confirm({ signal: controller.signal }), controller.signal)).resolves.toBe(false);
     expect(confirm).not.toHaveBeenCalled();
   });
+
+  it("shares the answer of a pending request with the same key", async () => {
+    const queue = new ApprovalQueue();
+    let resolveFirst: ((value: boolean) => void) | undefined;
+    const confirm = vi.fn(() => new Promise<boolean>((resolve) => (resolveFirst = resolve)));
+
+    const first = queue.requestApproval(confirm, undefined, "bash:npm publish");
+    const second = queue.requestApproval(confirm, undefined, "bash:npm publish");
+    await Promise.resolve();
+    resolveFirst?.(true);
+
+    await expect(Promise.all([first, second])).resolves.toEqual([true, true]);
+    expect(confirm).toHaveBeenCalledTimes(1);
+  });
+
+  it("prompts again for duplicates of an aborted request", async () => {
+    const queue = new ApprovalQueue();
+    const controller = new AbortController();
+    let resolveFirst: ((value: boolean) => void) | undefined;
+    const first = queue.requestApproval(() => new Promise<boolean>((resolve) => (resolveFirst = resolve)), controller.signal, "bash:npm publish");
+    const confirm = vi.fn(async () => true);
+    const second = queue.requestApproval(confirm, new AbortController().signal, "bash:npm publish");
+    const aborted = new AbortController();
+    aborted.abort();
+    const third = queue.requestApproval(confirm, aborted.signal, "bash:npm publish");
+
+    await Promise.resolve();
+    controller.abort();
+    resolveFirst?.(false);
+
+    await expect(Promise.all([first, second, third])).resolves.toEqual([false, true, false]);
+    expect(confirm).toHaveBeenCalledTimes(1);
+  });
+
+  it("resolves a duplicate to false when its own signal is aborted while it waits", async () => {
+    const queue = new ApprovalQueue();
+    let resolveFirst: ((value: boolean) => void) | undefined;
+    const confirm = vi.fn(() => new Promise<boolean>((resolve) => (resolveFirst = resolve)));
+    const first = queue.requestApproval(confirm, new AbortController().signal, "bash:npm publish");
+    const controller = new AbortController();
+    const second = queue.requestApproval(confirm, controller.signal, "bash:npm publish");
+
+    await Promise.resolve();
+    controller.abort();
+    await expect(second).resolves.toBe(false);
+
+    resolveFirst?.(true);
+    await expect(first).resolves.toBe(true);
+    expect(confirm).toHaveBeenCalledTimes(1);
+  });
+
+  it("prompts again for a key once its request has settled", async () => {
+    const queue = new ApprovalQueue();
+    const confirm = vi.fn(async () => false);
+
+    await queue.requestApproval(confirm, undefined, "read:/etc/shadow");
+    await queue.requestApproval(confirm, undefined, "read:/etc/shadow");
+
+    expect(confirm).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not share answers between different keys", async () => {
+    const queue = new ApprovalQueue();
+    const confirm = vi.fn(async () => true);
+
+    await Promise.all([queue.requestApproval(confirm, undefined, "write:/a"), queue.requestApproval(confirm, undefined, "edit:/a")]);
+
+    expect(confirm).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports the pending count to subscribers", async () => {
+    const queue = new ApprovalQueue();
+    const counts: number[] = [];
+    queue.subscribe((count) => counts.push(count));
+
+    const first = queue.requestApproval(async () => true, undefined, "a");
+    const duplicate = queue.requestApproval(async () => true, undefined, "a");
+    const second = queue.requestApproval(async () => true, undefined, "b");
+    expect(queue.pendingCount).toBe(2);
+
+    await Promise.all([first, duplicate, second]);
+    expect(queue.pendingCount).toBe(0);
+    expect(counts).toEqual([1, 2, 1, 0]);
+  });
 });
@@ -1,7 +1,47 @@
 export class ApprovalQueue {
   private tail: Promise<void> = Promise.resolve();
+  /** Queued or in-flight requests by key, with their abort signal, so duplicates can share their answer. */
+  private pending = new Map<string, { result: Promise<boolean>; signal?: AbortSignal }>();
+  private pendingRequests = 0;
+  private listeners = new Set<(pendingCount: number) => void>();
+
+  /** Number of approval dialogs waiting to be answered, including the one on screen. */
+  get pendingCount(): number {
+    return this.pendingRequests;
+  }
+
+  /**
+   * Calls `listener` with the new pending count whenever it changes. Returns a function that unsubscribes.
+   */
+  subscribe(listener: (pendingCount: number) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Queues `confirm` behind earlier requests. With a `key` (e.g. tool plus normalized
+   * path or command), a request made while another one with the same key is still
+   * queued or in flight shares that request's answer instead of prompting again. If that
+   * request is aborted, it has no answer to share, and the request is queued again on its own
+   * (resolving to `false` if it was aborted too). A duplicate aborted while it waits resolves
+   * to `false` at once, like a request aborted before its dialog is shown.
+   */
+  requestApproval(confirm: () => Promise<boolean>, signal?: AbortSignal, key?: string): Promise<boolean> {
+    const existing = key === undefined ? undefined : this.pending.get(key);
+    if (existing) {
+      const retry = () => (signal?.aborted ? false : this.requestApproval(confirm, signal, key));
+      const shared = existing.result.then(
+        (allow) => (existing.signal?.aborted ? retry() : allow),
+        (err: unknown) => {
+          if (existing.signal?.aborted) {
+            return retry();
+          }
+          throw err;
+        },
+      );
+      return signal ? resolveFalseOnAbort(shared, signal) : shared;
+    }
 
-  requestApproval(confirm: () => Promise<boolean>, signal?: AbortSignal): Promise<boolean> {
     const result = this.tail.then(
       async () => {
         if (signal?.aborted) {
@@ -24,6 +64,49 @@ export class ApprovalQueue {
       () => undefined,
     );
 
+    if (key !== undefined) {
+      this.pending.set(key, { result, signal });
+    }
+    this.setPendingCount(this.pendingRequests + 1);
+
+    const settle = () => {
+      if (key !== undefined && this.pending.get(key)?.result === result) {
+        this.pending.delete(key);
+      }
+      this.setPendingCount(this.pendingRequests - 1);
+    };
+    result.then(settle, settle);
+
     return result;
   }
+
+  private setPendingCount(count: number) {
+    this.pendingRequests = count;
+    for (const listener of this.listeners) {
+      listener(count);
+    }
+  }
+}
+
+/**
+ * Settles like `result`, or resolves to `false` as soon as `signal` is aborted.
+ */
+function resolveFalseOnAbort(result: Promise<boolean>, signal: AbortSignal): Promise<boolean> {
+  if (signal.aborted) {
+    return Promise.resolve(false);
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => resolve(false);
+    signal.addEventListener("abort", onAbort, { once: true });
+    result.then(
+      (allow) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(allow);
+      },
+      (err: unknown) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(err);
+      },
+    );
+  });
 }
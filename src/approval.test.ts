@@ -0,0 +1,272 @@
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { homedir, tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ApprovalQueue } from "./ApprovalQueue";
+import { APPROVAL_CHOICES, findEscalationDecision, getAlwaysAllowRule, getEscalationKey, requestEscalation } from "./approval";
+import { DEFAULT_CONFIG } from "./config";
+import type { SandboxState } from "./data/SandboxState";
+import { isUnsandboxedCommand } from "./sandbox-ops";
+import type { SandboxConfig } from "./types";
+
+const cwd = "/projects/myapp";
+
+describe("getEscalationKey", () => {
+  it("trims commands and resolves paths", () => {
+    expect(getEscalationKey("command", "  npm publish ", cwd)).toBe("npm publish");
+    expect(getEscalationKey("read", "./src/../.env", cwd)).toBe("/projects/myapp/.env");
+    expect(getEscalationKey("write", "~/.bashrc", cwd)).toBe(`${homedir()}/.bashrc`);
+  });
+});
+
+describe("findEscalationDecision", () => {
+  const config: SandboxConfig = { ...DEFAULT_CONFIG, alwaysDeny: { commands: ["rm *"], write: ["~/.ssh"] } };
+
+  it("returns session grants", () => {
+    const state = { config, approvalGrants: [{ kind: "command" as const, key: "npm publish", allow: true, reason: "release" }] };
+    expect(findEscalationDecision("command", "npm publish", state, cwd)).toBe(true);
+    expect(findEscalationDecision("read", "npm publish", state, cwd)).toBeUndefined();
+  });
+
+  it("denies matches of alwaysDeny", () => {
+    const state = { config, approvalGrants: [] };
+    expect(findEscalationDecision("command", "rm -rf dist", state, cwd)).toBe(false);
+    expect(findEscalationDecision("write", `${homedir()}/.ssh/config`, state, cwd)).toBe(false);
+    expect(findEscalationDecision("read", `${homedir()}/.ssh/config`, state, cwd)).toBeUndefined();
+  });
+});
+
+describe("getAlwaysAllowRule", () => {
+  it("saves simple commands but not compound ones", () => {
+    expect(getAlwaysAllowRule("command", "npm publish", DEFAULT_CONFIG, cwd)).toEqual({ action: "allow", kind: "command", value: "npm publish" });
+    expect(getAlwaysAllowRule("command", "npm publish && git push", DEFAULT_CONFIG, cwd)).toBeUndefined();
+  });
+
+  it("saves commands with glob arguments as patterns matching only that command", () => {
+    const rm = getAlwaysAllowRule("command", "rm *", DEFAULT_CONFIG, cwd);
+    expect(rm?.value).toBe("rm '*'");
+    expect(isUnsandboxedCommand("rm *", [rm!.value])).toBe(true);
+    expect(isUnsandboxedCommand("rm -rf /", [rm!.value])).toBe(false);
+
+    const cat = getAlwaysAllowRule("command", "cat *.log", DEFAULT_CONFIG, cwd);
+    expect(cat?.value).toBe("cat '*.log'");
+    expect(isUnsandboxedCommand("cat *.log", [cat!.value])).toBe(true);
+    expect(isUnsandboxedCommand("cat app.log", [cat!.value])).toBe(false);
+  });
+
+  it("does not save commands with expansions", () => {
+    expect(getAlwaysAllowRule("command", "echo $HOME", DEFAULT_CONFIG, cwd)).toBeUndefined();
+    expect(getAlwaysAllowRule("command", "echo `id`", DEFAULT_CONFIG, cwd)).toBeUndefined();
+  });
+
+  it("saves paths only if the rule would allow them", () => {
+    expect(getAlwaysAllowRule("read", `${homedir()}/.aws/config`, DEFAULT_CONFIG, cwd)).toEqual({
+      action: "allow",
+      kind: "read",
+      value: `${homedir()}/.aws/config`,
+    });
+    expect(getAlwaysAllowRule("write", "/etc/hosts", DEFAULT_CONFIG, cwd)).toEqual({ action: "allow", kind: "write", value: "/etc/hosts" });
+    // *.pem in denyWrite still matches
+    expect(getAlwaysAllowRule("write", "/etc/ssl/server.pem", DEFAULT_CONFIG, cwd)).toBeUndefined();
+  });
+});
+
+describe("requestEscalation", () => {
+  let root: string;
+  let state: SandboxState;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "pi-sandbox-approval-"));
+    vi.stubEnv("HOME", join(root, "home"));
+    state = {
+      enabled: true,
+      config: DEFAULT_CONFIG,
+      configSources: {},
+      configDiagnostics: [],
+      configFiles: [],
+      nestedConfigFiles: [],
+      sessionRules: [],
+      approvalQueue: new ApprovalQueue(),
+      approvalGrants: [],
+      escalations: [],
+      sessionId: "test",
+      auditRecords: [],
+      pendingViolations: new Map(),
+      commandRuleDomains: new Map(),
+      blockedHostsByRun: new Map(),
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function createContext(choice: string | undefined, hasUI = true) {
+    const select = vi.fn(async (_title: string, _options: string[]) => choice);
+    const ctx = { hasUI, ui: { select, notify: vi.fn() } } as unknown as ExtensionContext;
+    return { ctx, select };
+  }
+
+  const request = {
+    tool: "bash" as const,
+    target: "npm publish",
+    reason: "publish the release",
+    title: "Unsandboxed Command",
+    question: "Allow running without sandbox?",
+  };
+
+  it("rejects requests without a reason", async () => {
+    const { ctx, select } = createContext(APPROVAL_CHOICES.allowOnce);
+
+    await expect(requestEscalation({ ...request, reason: undefined }, state, ctx, root)).rejects.toThrow("bypassReason is required");
+    await expect(requestEscalation({ ...request, reason: "  " }, state, ctx, root)).rejects.toThrow("bypassReason is required");
+    expect(select).not.toHaveBeenCalled();
+  });
+
+  it("shows the reason in the dialog", async () => {
+    const { ctx, select } = createContext(APPROVAL_CHOICES.allowOnce);
+
+    await requestEscalation(request, state, ctx, root);
+    expect(select.mock.calls[0][0]).toContain("Reason: publish the release");
+  });
+
+  it("does not remember one-off answers", async () => {
+    const { ctx, select } = createContext(APPROVAL_CHOICES.allowOnce);
+
+    await expect(requestEscalation(request, state, ctx, root)).resolves.toBe(true);
+    await expect(requestEscalation(request, state, ctx, root)).resolves.toBe(true);
+    expect(select).toHaveBeenCalledTimes(2);
+    expect(state.approvalGrants).toEqual([]);
+  });
+
+  it("asks once for identical requests made in parallel", async () => {
+    const { ctx, select } = createContext(APPROVAL_CHOICES.allowOnce);
+
+    const results = await Promise.all([
+      requestEscalation(request, state, ctx, root),
+      requestEscalation({ ...request, target: " npm publish" }, state, ctx, root),
+    ]);
+    expect(results).toEqual([true, true]);
+    expect(select).toHaveBeenCalledTimes(1);
+  });
+
+  it("remembers session answers, including for queued requests", async () => {
+    const { ctx, select } = createContext(APPROVAL_CHOICES.denySession);
+
+    const results = await Promise.all([requestEscalation(request, state, ctx, root), requestEscalation(request, state, ctx, root)]);
+    expect(results).toEqual([false, false]);
+    expect(select).toHaveBeenCalledTimes(1);
+    expect(state.approvalGrants).toEqual([{ kind: "command", key: "npm publish", allow: false, reason: "publish the release" }]);
+  });
+
+  it("saves always answers to the project config", async () => {
+    const { ctx } = createContext(APPROVAL_CHOICES.denyAlways);
+
+    await expect(requestEscalation(request, state, ctx, root)).resolves.toBe(false);
+    expect(JSON.parse(readFileSync(join(root, ".pi", "sandbox.json"), "utf-8"))).toEqual({ alwaysDeny: { commands: ["npm publish"] } });
+  });
+
+  it("saves always deny for a command with globs as a literal pattern", async () => {
+    const { ctx } = createContext(APPROVAL_CHOICES.denyAlways);
+
+    await requestEscalation({ ...request, target: "rm *" }, state, ctx, root);
+    expect(JSON.parse(readFileSync(join(root, ".pi", "sandbox.json"), "utf-8"))).toEqual({ alwaysDeny: { commands: ["rm '*'"] } });
+  });
+
+  it("treats a dismissed dialog as a denial", async () => {
+    const { ctx } = createContext(undefined);
+
+    await expect(requestEscalation(request, state, ctx, root)).resolves.toBe(false);
+  });
+
+  it("offers always allow only when a rule can express it", async () => {
+    const { ctx, select } = createContext(APPROVAL_CHOICES.denyOnce);
+
+    await requestEscalation({ ...request, target: "npm publish | tee log" }, state, ctx, root);
+    expect(select.mock.calls[0][1]).not.toContain(APPROVAL_CHOICES.allowAlways);
+    expect(select.mock.calls[0][1]).not.toContain(APPROVAL_CHOICES.denyAlways);
+  });
+
+  describe("approval timeout", () => {
+    function createUnansweredContext() {
+      const select = vi.fn(
+        (_title: string, _options: string[], opts?: { signal?: AbortSignal }) =>
+          new Promise<string | undefined>((resolve) => opts?.signal?.addEventListener("abort", () => resolve(undefined))),
+      );
+      return { hasUI: true, ui: { select, notify: vi.fn() } } as unknown as ExtensionContext;
+    }
+
+    it("denies with a timed out error when nobody answers", async () => {
+      state.config = { ...DEFAULT_CONFIG, approvalTimeout: { seconds: 0.01 } };
+
+      await expect(requestEscalation(request, state, createUnansweredContext(), root)).rejects.toThrow("timed out after 0.01s");
+    });
+
+    it("applies the configured default decision", async () => {
+      state.config = { ...DEFAULT_CONFIG, approvalTimeout: { seconds: 0.01, default: "allow" } };
+
+      await expect(requestEscalation(request, state, createUnansweredContext(), root)).resolves.toBe(true);
+    });
+
+    it("reports an aborted tool call as a denial, not a timeout", async () => {
+      state.config = { ...DEFAULT_CONFIG, approvalTimeout: { seconds: 60 } };
+      const controller = new AbortController();
+
+      const result = requestEscalation(request, state, createUnansweredContext(), root, controller.signal);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      controller.abort();
+      await expect(result).resolves.toBe(false);
+    });
+  });
+
+  it("fails without a UI unless already decided", async () => {
+    const { ctx } = createContext(undefined, false);
+
+    await expect(requestEscalation(request, state, ctx, root)).rejects.toThrow("Cannot run unsandboxed command: no UI available for approval");
+    state.approvalGrants = [{ kind: "command", key: "npm publish", allow: true, reason: "release" }];
+    await expect(requestEscalation(request, state, ctx, root)).resolves.toBe(true);
+  });
+
+  it("lets the approver decide without a UI", async () => {
+    writeFileSync(join(root, "approvals.json"), JSON.stringify({ bash: { allow: ["npm publish"], deny: ["npm unpublish *"] } }));
+    state.config = { ...DEFAULT_CONFIG, approver: { type: "rules", path: "approvals.json" } };
+    const { ctx } = createContext(undefined, false);
+
+    await expect(requestEscalation(request, state, ctx, root)).resolves.toBe(true);
+    await expect(requestEscalation({ ...request, target: "npm unpublish pkg" }, state, ctx, root)).rejects.toThrow(
+      /^Denied by the rules approver: matches deny pattern/,
+    );
+    await expect(requestEscalation({ ...request, target: "npm test" }, state, ctx, root)).rejects.toThrow("no UI available for approval");
+  });
+
+  it("denies requests over the escalation limit without asking", async () => {
+    state.config = { ...DEFAULT_CONFIG, escalationLimits: { perSession: 1 } };
+    const { ctx, select } = createContext(APPROVAL_CHOICES.allowOnce);
+
+    await expect(requestEscalation(request, state, ctx, root)).resolves.toBe(true);
+    await expect(requestEscalation(request, state, ctx, root)).rejects.toThrow("Escalation limit reached");
+    expect(select).toHaveBeenCalledTimes(1);
+  });
+
+  it("records escalation decisions in the audit log", async () => {
+    state.config = { ...DEFAULT_CONFIG, alwaysDeny: { commands: ["rm *"] } };
+    const { ctx } = createContext(APPROVAL_CHOICES.allowOnce);
+
+    await requestEscalation(request, state, ctx, root);
+    await requestEscalation({ ...request, target: "rm -rf dist" }, state, ctx, root);
+
+    const log = readFileSync(join(root, "home", ".pi", "agent", "sandbox-audit", "sandbox-audit-test.jsonl"), "utf-8");
+    expect(
+      log
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line)),
+    ).toMatchObject([
+      { event: "escalation", tool: "bash", input: "npm publish", decision: "allow", approver: "dialog", reason: "publish the release" },
+      { event: "escalation", tool: "bash", input: "rm -rf dist", decision: "deny", approver: "alwaysDeny" },
+    ]);
+  });
+});
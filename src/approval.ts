@@ -0,0 +1,266 @@
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+
+import { createApprover } from "./approvers";
+import { appendAuditRecord } from "./audit-log";
+import { getConfigPaths, resolveConfigForPath } from "./config";
+import { mergeConfigLayers } from "./config-merge";
+import { addConfigEntry, updateConfigFile } from "./config-writer";
+import type { SandboxState } from "./data/SandboxState";
+import { consumeEscalationBudget } from "./escalation-limits";
+import { isReadAllowed, isWriteAllowed, pathMatchesPattern, resolvePath } from "./file-ops";
+import { applyRuleToConfigText, createRuleLayer } from "./rules";
+import { findUnsandboxedPattern, toLiteralCommandPattern } from "./sandbox-ops";
+import type { ApprovalGrant, EscalationKind, EscalationTool, SandboxConfig, SandboxRule } from "./types";
+
+/**
+ * A tool's request to bypass the sandbox, e.g. to run `npm publish` or edit `~/.bashrc`.
+ */
+export interface EscalationRequest {
+  tool: EscalationTool;
+  /** The command or path as given by the agent. */
+  target: string;
+  /** The agent's `bypassReason`: why the request cannot run in the sandbox. */
+  reason?: string;
+  /** Dialog title, e.g. "Unsandboxed Command". */
+  title: string;
+  /** Dialog question, e.g. "Allow running without sandbox?". */
+  question: string;
+}
+
+export const APPROVAL_CHOICES = {
+  allowOnce: "Allow once",
+  allowSession: "Allow for this session",
+  allowAlways: "Always allow (save to project config)",
+  denyOnce: "Deny once",
+  denySession: "Deny for this session",
+  denyAlways: "Always deny (save to project config)",
+} as const;
+
+const TOOL_KINDS: Record<EscalationTool, EscalationKind> = { bash: "command", read: "read", write: "write", edit: "write" };
+
+export function getEscalationKind(tool: EscalationTool): EscalationKind {
+  return TOOL_KINDS[tool];
+}
+
+/**
+ * Normalizes the target of an escalation so that equivalent requests share grants:
+ * commands are trimmed and paths are made absolute.
+ */
+export function getEscalationKey(kind: EscalationKind, target: string, cwd: string): string {
+  return kind === "command" ? target.trim() : resolvePath(target, cwd);
+}
+
+/**
+ * The decision already made for an escalation, if any: a session grant, or a match in
+ * the config's `alwaysDeny` lists. `undefined` means the user has to be asked.
+ */
+export function findEscalationDecision(
+  kind: EscalationKind,
+  key: string,
+  state: Pick<SandboxState, "config" | "approvalGrants">,
+  cwd: string,
+): boolean | undefined {
+  const grant = state.approvalGrants.find((existing) => existing.kind === kind && existing.key === key);
+  if (grant) {
+    return grant.allow;
+  }
+
+  const { alwaysDeny } = state.config;
+  const denied =
+    kind === "command"
+      ? findUnsandboxedPattern(key, alwaysDeny?.commands ?? []) !== undefined
+      : (alwaysDeny?.[kind] ?? []).some((pattern) => pathMatchesPattern(key, pattern, cwd));
+  return denied ? false : undefined;
+}
+
+/**
+ * The rule "Always allow" saves for an escalation, or `undefined` if no rule can express it.
+ * Commands become `unsandboxedCommands` entries that match only that exact command (see
+ * `toLiteralCommandPattern`), so `rm *` does not pre-approve every `rm`.
+ * Paths become `allowRead` or `allowWrite` entries; a write stays blocked if a broader
+ * `denyWrite` pattern (such as `*.pem`) matches it.
+ */
+export function getAlwaysAllowRule(kind: EscalationKind, key: string, config: SandboxConfig, cwd: string): SandboxRule | undefined {
+  if (kind === "command") {
+    const pattern = toLiteralCommandPattern(key);
+    return pattern !== undefined ? { action: "allow", kind, value: pattern } : undefined;
+  }
+
+  const rule: SandboxRule = { action: "allow", kind, value: key };
+  const { config: widened } = mergeConfigLayers(config, [{ source: "", layer: createRuleLayer(rule) }]);
+  const allowed = kind === "read" ? isReadAllowed(key, cwd, widened) : isWriteAllowed(key, cwd, widened);
+  return allowed ? rule : undefined;
+}
+
+const ALWAYS_DENY_KEYS: Record<EscalationKind, keyof NonNullable<SandboxConfig["alwaysDeny"]>> = {
+  command: "commands",
+  read: "read",
+  write: "write",
+};
+
+/**
+ * The config that applies to an escalation: the session config for commands, and the
+ * config including nested directory configs for paths, as used by the file tools.
+ */
+function getApplicableConfig(kind: EscalationKind, key: string, state: SandboxState, cwd: string): SandboxConfig {
+  return kind === "command" ? state.config : resolveConfigForPath(key, cwd, state).config;
+}
+
+function saveDecision(kind: EscalationKind, key: string, allow: boolean, state: SandboxState, cwd: string) {
+  const { project } = getConfigPaths(cwd);
+  const alwaysAllowRule = getAlwaysAllowRule(kind, key, getApplicableConfig(kind, key, state, cwd), cwd);
+
+  updateConfigFile(project, (text) => {
+    if (!allow) {
+      // Like "Always allow", a command is saved as a pattern matching only that command
+      const entry = kind === "command" ? toLiteralCommandPattern(key) : key;
+      return entry !== undefined ? addConfigEntry(text, ["alwaysDeny", ALWAYS_DENY_KEYS[kind]], entry) : text;
+    }
+    return alwaysAllowRule ? applyRuleToConfigText(text, alwaysAllowRule, state.config) : text;
+  });
+}
+
+/**
+ * Shows the approval dialog and records "for this session" and "always" answers.
+ * With `approvalTimeout`, the dialog is dismissed through its abort signal once the
+ * time is up, and the configured default decides; a denial throws a "timed out" error.
+ */
+async function promptForEscalation(
+  request: EscalationRequest,
+  kind: EscalationKind,
+  key: string,
+  reason: string,
+  state: SandboxState,
+  ctx: ExtensionContext,
+  cwd: string,
+  signal?: AbortSignal,
+): Promise<boolean> {
+  const canAlwaysAllow = getAlwaysAllowRule(kind, key, getApplicableConfig(kind, key, state, cwd), cwd) !== undefined;
+  const canAlwaysDeny = kind !== "command" || toLiteralCommandPattern(key) !== undefined;
+  const choices = Object.values(APPROVAL_CHOICES).filter(
+    (choice) => (canAlwaysAllow || choice !== APPROVAL_CHOICES.allowAlways) && (canAlwaysDeny || choice !== APPROVAL_CHOICES.denyAlways),
+  );
+
+  // The timeout starts when the dialog is shown, not while the request is queued
+  const timeout = state.config.approvalTimeout;
+  const timeoutSignal = timeout ? AbortSignal.timeout(timeout.seconds * 1000) : undefined;
+  const dialogSignal = timeoutSignal && signal ? AbortSignal.any([signal, timeoutSignal]) : (timeoutSignal ?? signal);
+  const choice = await ctx.ui.select(`${request.title}: ${request.question}\n\n${request.target}\n\nReason: ${reason}`, choices, {
+    signal: dialogSignal,
+  });
+
+  if (timeout && timeoutSignal?.aborted && !signal?.aborted) {
+    if (timeout.default === "allow") {
+      return true;
+    }
+    throw new Error(`Approval request timed out after ${timeout.seconds}s and was denied: nobody answered the dialog`);
+  }
+
+  const allow = choice === APPROVAL_CHOICES.allowOnce || choice === APPROVAL_CHOICES.allowSession || choice === APPROVAL_CHOICES.allowAlways;
+  const always = choice === APPROVAL_CHOICES.allowAlways || choice === APPROVAL_CHOICES.denyAlways;
+  const forSession = always || choice === APPROVAL_CHOICES.allowSession || choice === APPROVAL_CHOICES.denySession;
+
+  if (forSession) {
+    const grant: ApprovalGrant = { kind, key, allow, reason };
+    state.approvalGrants = [...state.approvalGrants.filter((existing) => existing.kind !== kind || existing.key !== key), grant];
+  }
+  if (always) {
+    try {
+      saveDecision(kind, key, allow, state, cwd);
+    } catch (err) {
+      ctx.ui.notify(`Could not save the decision to the project config: ${err instanceof Error ? err.message : err}`, "error");
+    }
+  }
+  return allow;
+}
+
+/**
+ * Asks the user whether a tool may bypass the sandbox, unless a session grant,
+ * `alwaysDeny` or the configured `approver` already decides. Dialogs are queued so
+ * only one is shown at a time. Requests that are not already decided by a grant or
+ * `alwaysDeny` count against `escalationLimits`, and are denied once a limit is reached.
+ * Identical requests (same tool and key) made while one is pending share its answer
+ * (unless that request is aborted, see `ApprovalQueue.requestApproval`), and the decision is looked up again once it is a request's turn, so a
+ * "for this session" answer also settles matching requests waiting behind it.
+ *
+ * "Always" choices are saved to the project config (and picked up by the config
+ * watcher) and also granted for the session, so they apply immediately.
+ *
+ * Every request needs a `reason`, which is shown in the dialog, passed to the
+ * approver and recorded with session grants. Requests without one are rejected
+ * before anything is asked.
+ *
+ * Every decision, and who made it, is appended to the audit log.
+ */
+export async function requestEscalation(
+  request: EscalationRequest,
+  state: SandboxState,
+  ctx: ExtensionContext,
+  cwd: string,
+  signal?: AbortSignal,
+): Promise<boolean> {
+  const reason = request.reason?.trim();
+  if (!reason) {
+    appendAuditRecord(state, { event: "escalation", tool: request.tool, input: request.target, decision: "deny", error: "missing bypassReason" });
+    throw new Error(
+      "bypassReason is required when bypassSandbox is true. Try again with bypassReason set to why this cannot run in the sandbox, e.g. which path or domain it needs.",
+    );
+  }
+
+  const kind = getEscalationKind(request.tool);
+  const key = getEscalationKey(kind, request.target, cwd);
+
+  // Who decided, recorded in the audit log
+  let decidedBy = "session";
+  const decide = async () => {
+    const decided = findEscalationDecision(kind, key, state, cwd);
+    if (decided !== undefined) {
+      decidedBy = state.approvalGrants.some((grant) => grant.kind === kind && grant.key === key) ? "session" : "alwaysDeny";
+      return decided;
+    }
+
+    decidedBy = "limit";
+    consumeEscalationBudget(request.tool, state);
+
+    const { approver } = state.config;
+    if (approver) {
+      decidedBy = approver.type;
+      const decision = await createApprover(approver, cwd).decide(
+        { tool: request.tool, target: request.target, key, reason, cwd, sessionId: state.sessionId },
+        signal,
+      );
+      if (decision?.allow) {
+        return true;
+      }
+      if (decision) {
+        throw new Error(`Denied by the ${approver.type} approver${decision.reason ? `: ${decision.reason}` : ""}`);
+      }
+      if (signal?.aborted) {
+        return false;
+      }
+    }
+
+    if (!ctx.hasUI) {
+      decidedBy = "none";
+      const noun = request.tool === "bash" ? "command" : request.tool;
+      throw new Error(`Cannot run unsandboxed ${noun}: no UI available for approval`);
+    }
+
+    decidedBy = "dialog";
+    return promptForEscalation(request, kind, key, reason, state, ctx, cwd, signal);
+  };
+
+  const decideAndRecord = async () => {
+    const record = { event: "escalation", tool: request.tool, input: request.target, reason } as const;
+    try {
+      const allow = await decide();
+      appendAuditRecord(state, { ...record, decision: allow ? "allow" : "deny", approver: decidedBy });
+      return allow;
+    } catch (err) {
+      appendAuditRecord(state, { ...record, decision: "deny", approver: decidedBy, error: err instanceof Error ? err.message : String(err) });
+      throw err;
+    }
+  };
+
+  return state.approvalQueue.requestApproval(decideAndRecord, signal, `${request.tool}:${key}`);
+}
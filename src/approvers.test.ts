@@ -0,0 +1,136 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { type Server, createServer } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { type ApproverRequest, createApprover } from "./approvers";
+
+describe("createApprover", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "pi-sandbox-approvers-"));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function createRequest(overrides: Partial<ApproverRequest> = {}): ApproverRequest {
+    return { tool: "bash", target: "npm publish", key: "npm publish", reason: "release 1.2.0", cwd: root, sessionId: "test", ...overrides };
+  }
+
+  describe("rules", () => {
+    beforeEach(() => {
+      writeFileSync(
+        join(root, "approvals.jsonc"),
+        `{
+          // CI may publish, but never force-push
+          "bash": { "allow": ["npm publish", "git push *"], "deny": ["git push --force *"] },
+          "write": { "allow": ["./dist"] },
+        }`,
+      );
+    });
+
+    it("allows and denies matching requests, deny first", async () => {
+      const approver = createApprover({ type: "rules", path: "approvals.jsonc" }, root);
+
+      await expect(approver.decide(createRequest())).resolves.toMatchObject({ allow: true });
+      await expect(approver.decide(createRequest({ key: "git push origin main" }))).resolves.toMatchObject({ allow: true });
+      await expect(approver.decide(createRequest({ key: "git push --force origin main" }))).resolves.toMatchObject({
+        allow: false,
+        reason: expect.stringContaining('"git push --force *"'),
+      });
+      await expect(approver.decide(createRequest({ tool: "write", key: join(root, "dist", "index.js") }))).resolves.toMatchObject({ allow: true });
+    });
+
+    it("has no opinion on requests without a matching rule", async () => {
+      const approver = createApprover({ type: "rules", path: "approvals.jsonc" }, root);
+
+      await expect(approver.decide(createRequest({ key: "curl example.com" }))).resolves.toBeUndefined();
+      await expect(approver.decide(createRequest({ tool: "read", key: join(root, "dist") }))).resolves.toBeUndefined();
+    });
+
+    it("does not allow commands with substitutions", async () => {
+      const approver = createApprover({ type: "rules", path: "approvals.jsonc" }, root);
+
+      await expect(approver.decide(createRequest({ key: 'git push "$(rm -rf /)"' }))).resolves.toBeUndefined();
+      await expect(approver.decide(createRequest({ key: "git push `rm -rf /`" }))).resolves.toBeUndefined();
+    });
+
+    it("rejects an invalid rules file", async () => {
+      writeFileSync(join(root, "approvals.jsonc"), `{ "bash": { "allow": "npm publish" } }`);
+      const approver = createApprover({ type: "rules", path: "approvals.jsonc" }, root);
+
+      await expect(approver.decide(createRequest())).rejects.toThrow("Invalid approval rules file");
+    });
+
+    it("rejects a rules file with an invalid command pattern", async () => {
+      writeFileSync(join(root, "approvals.jsonc"), `{ "bash": { "deny": ["git push 're:(main'"] } }`);
+      const approver = createApprover({ type: "rules", path: "approvals.jsonc" }, root);
+
+      await expect(approver.decide(createRequest())).rejects.toThrow("Invalid regular expression");
+    });
+  });
+
+  describe("command", () => {
+    function createScript(source: string) {
+      return createApprover({ type: "command", command: [process.execPath, "-e", source], timeoutSeconds: 5 }, root);
+    }
+
+    it("passes the request on stdin and reads the decision from stdout", async () => {
+      const approver = createScript(`
+        let input = "";
+        process.stdin.on("data", (chunk) => (input += chunk));
+        process.stdin.on("end", () => {
+          const request = JSON.parse(input);
+          const allow = request.tool === "bash" && request.key === "npm publish";
+          console.log(JSON.stringify({ decision: allow ? "allow" : "deny", reason: "checked by script" }));
+        });
+      `);
+
+      await expect(approver.decide(createRequest())).resolves.toEqual({ allow: true, reason: "checked by script" });
+      await expect(approver.decide(createRequest({ key: "npm unpublish" }))).resolves.toEqual({ allow: false, reason: "checked by script" });
+    });
+
+    it("fails on a non-zero exit or an invalid response", async () => {
+      await expect(createScript(`console.error("boom"); process.exit(2)`).decide(createRequest())).rejects.toThrow("exited with code 2: boom");
+      await expect(createScript(`console.log("yes")`).decide(createRequest())).rejects.toThrow("invalid JSON");
+      await expect(createScript(`console.log(JSON.stringify({ decision: "maybe" }))`).decide(createRequest())).rejects.toThrow("invalid response");
+    });
+
+    it("fails when the command takes too long", async () => {
+      const approver = createApprover(
+        { type: "command", command: [process.execPath, "-e", "setTimeout(() => {}, 10000)"], timeoutSeconds: 0.1 },
+        root,
+      );
+
+      await expect(approver.decide(createRequest())).rejects.toThrow("timed out after 0.1s");
+    });
+  });
+
+  describe("socket", () => {
+    let server: Server;
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("exchanges one JSON line per request", async () => {
+      const path = join(root, "approver.sock");
+      server = createServer((socket) => {
+        socket.setEncoding("utf-8");
+        socket.once("data", (line: string) => {
+          const request = JSON.parse(line);
+          socket.end(`${JSON.stringify({ decision: request.tool === "read" ? "allow" : "deny" })}\n`);
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(path, resolve));
+      const approver = createApprover({ type: "socket", path: "approver.sock" }, root);
+
+      await expect(approver.decide(createRequest({ tool: "read", key: "/etc/hosts" }))).resolves.toEqual({ allow: true, reason: undefined });
+      await expect(approver.decide(createRequest())).resolves.toEqual({ allow: false, reason: undefined });
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { parse } from "jsonc-parser";
+import { spawn } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { createConnection } from "node:net";
+import { resolve } from "node:path";
+
+import { pathMatchesPattern } from "./file-ops";
+import { findUnsandboxedPattern } from "./sandbox-ops";
+import { ApprovalRulesFileSchema, ApproverResponseSchema } from "./schema";
+import type { ApproverConfig, EscalationTool } from "./types";
+
+const DEFAULT_TIMEOUT_SECONDS = 30;
+
+/**
+ * What an approver is asked: the tool, its target as given by the agent, the
+ * normalized key (command, or absolute path) that session grants use and the
+ * agent's reason for the bypass.
+ */
+export interface ApproverRequest {
+  tool: EscalationTool;
+  target: string;
+  key: string;
+  reason: string;
+  cwd: string;
+  sessionId: string;
+}
+
+export interface ApproverDecision {
+  allow: boolean;
+  reason?: string;
+}
+
+/**
+ * Decides escalation requests without the approval dialog. `undefined` means the
+ * approver has no opinion and the user is asked (if there is a UI).
+ */
+export interface Approver {
+  decide(request: ApproverRequest, signal?: AbortSignal): Promise<ApproverDecision | undefined>;
+}
+
+export function createApprover(config: ApproverConfig, cwd: string): Approver {
+  switch (config.type) {
+    case "rules":
+      return createRulesApprover(resolve(cwd, config.path));
+    case "command":
+      return createCommandApprover(config.command, (config.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000);
+    case "socket":
+      return createSocketApprover(resolve(cwd, config.path), (config.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000);
+  }
+}
+
+/**
+ * Matches the request against the rules file (re-read on every request, so edits apply
+ * immediately). Deny patterns win over allow patterns; no match means no opinion.
+ */
+function createRulesApprover(path: string): Approver {
+  return {
+    async decide(request) {
+      let rules;
+      try {
+        rules = ApprovalRulesFileSchema.parse(parse(readFileSync(path, "utf-8"), [], { allowTrailingComma: true }));
+      } catch (err) {
+        throw new Error(`Invalid approval rules file ${path}: ${err instanceof Error ? err.message : err}`);
+      }
+
+      const matches = (patterns: string[] | undefined) =>
+        (patterns ?? []).find((pattern) =>
+          request.tool === "bash"
+            ? findUnsandboxedPattern(request.key, [pattern]) !== undefined
+            : pathMatchesPattern(request.key, pattern, request.cwd),
+        );
+
+      const toolRules = rules[request.tool];
+      const denied = matches(toolRules?.deny);
+      if (denied !== undefined) {
+        return { allow: false, reason: `matches deny pattern "${denied}" in ${path}` };
+      }
+      const allowed = matches(toolRules?.allow);
+      if (allowed !== undefined) {
+        return { allow: true, reason: `matches allow pattern "${allowed}" in ${path}` };
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Runs the command with the request as JSON on stdin and expects
+ * `{"decision": "allow" | "deny", "reason"?: string}` on stdout. A non-zero exit,
+ * invalid output or a timeout is an error, which denies the request.
+ */
+function createCommandApprover(command: string[], timeoutMs: number): Approver {
+  return {
+    decide(request, signal) {
+      return new Promise((resolvePromise, reject) => {
+        const [file, ...args] = command;
+        const child = spawn(file, args, { cwd: request.cwd, stdio: ["pipe", "pipe", "pipe"] });
+        let stdout = "";
+        let stderr = "";
+
+        const timeoutHandle = setTimeout(() => {
+          child.kill("SIGKILL");
+          reject(new Error(`Approver command timed out after ${timeoutMs / 1000}s`));
+        }, timeoutMs);
+        const onAbort = () => {
+          child.kill("SIGKILL");
+          resolvePromise(undefined);
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        const cleanup = () => {
+          clearTimeout(timeoutHandle);
+          signal?.removeEventListener("abort", onAbort);
+        };
+
+        child.stdout.on("data", (chunk) => (stdout += chunk));
+        child.stderr.on("data", (chunk) => (stderr += chunk));
+        child.on("error", (err) => {
+          cleanup();
+          reject(new Error(`Approver command failed: ${err.message}`));
+        });
+        child.on("close", (code) => {
+          cleanup();
+          if (code !== 0) {
+            reject(new Error(`Approver command exited with code ${code}${stderr.trim() ? `: ${stderr.trim()}` : ""}`));
+            return;
+          }
+          try {
+            resolvePromise(parseResponse(stdout));
+          } catch (err) {
+            reject(err);
+          }
+        });
+
+        // The approver may exit without reading its input
+        child.stdin.on("error", () => {});
+        child.stdin.end(JSON.stringify(request));
+      });
+    },
+  };
+}
+
+/**
+ * Sends the request as one JSON line to the Unix socket and reads one JSON line back,
+ * in the same format as the command approver.
+ */
+function createSocketApprover(path: string, timeoutMs: number): Approver {
+  return {
+    decide(request, signal) {
+      return new Promise((resolvePromise, reject) => {
+        const socket = createConnection(path);
+        let response = "";
+
+        const timeoutHandle = setTimeout(() => {
+          socket.destroy();
+          reject(new Error(`Approver socket timed out after ${timeoutMs / 1000}s`));
+        }, timeoutMs);
+        const onAbort = () => {
+          socket.destroy();
+          resolvePromise(undefined);
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        const finish = () => {
+          clearTimeout(timeoutHandle);
+          signal?.removeEventListener("abort", onAbort);
+          socket.end();
+          try {
+            resolvePromise(parseResponse(response));
+          } catch (err) {
+            reject(err);
+          }
+        };
+
+        socket.setEncoding("utf-8");
+        socket.on("connect", () => socket.write(`${JSON.stringify(request)}\n`));
+        socket.on("data", (chunk: string) => {
+          response += chunk;
+          if (response.includes("\n")) finish();
+        });
+        socket.on("end", finish);
+        socket.on("error", (err) => {
+          clearTimeout(timeoutHandle);
+          signal?.removeEventListener("abort", onAbort);
+          reject(new Error(`Approver socket ${path} failed: ${err.message}`));
+        });
+      });
+    },
+  };
+}
+
+function parseResponse(text: string): ApproverDecision {
+  const line = text.split("\n").find((candidate) => candidate.trim());
+  let json: unknown;
+  try {
+    json = JSON.parse(line ?? "");
+  } catch {
+    throw new Error(`Approver returned invalid JSON: ${JSON.stringify(text.slice(0, 200))}`);
+  }
+
+  const result = ApproverResponseSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`Approver returned an invalid response: ${result.error.issues[0]?.message}`);
+  }
+  return { allow: result.data.decision === "allow", reason: result.data.reason };
+}
@@ -0,0 +1,106 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { type AuditRecord, appendAuditRecord, getAuditLogPath, getSessionReportPath, pruneAuditLogs, writeSessionReport } from "./audit-log";
+import { DEFAULT_CONFIG } from "./config";
+import type { SandboxConfig } from "./types";
+
+describe("audit log", () => {
+  let root: string;
+  let config: SandboxConfig;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "pi-sandbox-audit-"));
+    config = { ...DEFAULT_CONFIG, auditLog: { directory: join(root, "audit"), retentionDays: 7 } };
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function readRecords(sessionId: string) {
+    return readFileSync(getAuditLogPath(config, sessionId), "utf-8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+  }
+
+  it("appends one JSON line per record to the session's file", () => {
+    const state = { config, sessionId: "abc", auditRecords: [] as AuditRecord[] };
+
+    appendAuditRecord(state, {
+      event: "check",
+      tool: "read",
+      input: ".env",
+      decision: "deny",
+      rule: { key: "filesystem.denyRead", pattern: ".env" },
+    });
+    appendAuditRecord(state, { event: "run", tool: "bash", input: "npm test", sandboxed: true, exitCode: 1 });
+
+    const records = readRecords("abc");
+    expect(records).toMatchObject([
+      { event: "check", tool: "read", input: ".env", decision: "deny", rule: { key: "filesystem.denyRead", pattern: ".env" } },
+      { event: "run", tool: "bash", input: "npm test", sandboxed: true, exitCode: 1 },
+    ]);
+    expect(Date.parse(records[0].timestamp)).not.toBeNaN();
+    expect(state.auditRecords).toEqual(records);
+  });
+
+  it("only keeps records in memory when disabled or before the session starts", () => {
+    const auditRecords: AuditRecord[] = [];
+    appendAuditRecord(
+      { config: { ...config, auditLog: { ...config.auditLog, enabled: false } }, sessionId: "abc", auditRecords },
+      { event: "check", tool: "read", input: "a" },
+    );
+    appendAuditRecord({ config, sessionId: "", auditRecords }, { event: "check", tool: "read", input: "a" });
+
+    expect(existsSync(join(root, "audit"))).toBe(false);
+    expect(auditRecords).toHaveLength(2);
+  });
+
+  it("writes the session report next to the log", () => {
+    const path = writeSessionReport({ config, sessionId: "abc" }, "Sandbox report");
+
+    expect(path).toBe(getSessionReportPath(config, "abc"));
+    expect(path).toBe(join(root, "audit", "sandbox-audit-abc-report.txt"));
+    expect(readFileSync(path!, "utf-8")).toBe("Sandbox report\n");
+  });
+
+  it("does not write the session report when the log is disabled", () => {
+    expect(
+      writeSessionReport({ config: { ...config, auditLog: { ...config.auditLog, enabled: false } }, sessionId: "abc" }, "report"),
+    ).toBeUndefined();
+    expect(writeSessionReport({ config, sessionId: "" }, "report")).toBeUndefined();
+    expect(existsSync(join(root, "audit"))).toBe(false);
+  });
+
+  it("deletes logs and reports older than the retention period", () => {
+    const directory = join(root, "audit");
+    mkdirSync(directory);
+    const eightDaysAgo = (Date.now() - 8 * 24 * 60 * 60 * 1000) / 1000;
+    for (const file of ["sandbox-audit-old.jsonl", "sandbox-audit-old-report.txt", "sandbox-audit-new.jsonl", "sandbox-audit-new-report.txt"]) {
+      writeFileSync(join(directory, file), "");
+      if (file.includes("old")) utimesSync(join(directory, file), eightDaysAgo, eightDaysAgo);
+    }
+
+    pruneAuditLogs(config);
+
+    expect(readdirSync(directory).sort()).toEqual(["sandbox-audit-new-report.txt", "sandbox-audit-new.jsonl"]);
+  });
+
+  it("keeps old files the extension did not create", () => {
+    const directory = join(root, "audit");
+    mkdirSync(directory);
+    const eightDaysAgo = (Date.now() - 8 * 24 * 60 * 60 * 1000) / 1000;
+    for (const file of ["session.jsonl", "notes.txt", "sandbox-audit-notes.txt"]) {
+      writeFileSync(join(directory, file), "");
+      utimesSync(join(directory, file), eightDaysAgo, eightDaysAgo);
+    }
+
+    pruneAuditLogs(config);
+
+    expect(readdirSync(directory).sort()).toEqual(["notes.txt", "sandbox-audit-notes.txt", "session.jsonl"]);
+  });
+});
@@ -0,0 +1,130 @@
+import { appendFileSync, mkdirSync, readdirSync, statSync, unlinkSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+import type { SandboxState } from "./data/SandboxState";
+import { expandHomePath } from "./file-ops";
+import type { EscalationTool, RuleMatch, SandboxConfig, SandboxViolation } from "./types";
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Prefix of the log file names. `auditLog.directory` can be any directory, so pruning only
+ * touches files with this prefix, which the extension created.
+ */
+const LOG_FILE_PREFIX = "sandbox-audit-";
+
+/** Suffixes of the files written per session: the log and the report written when it ends. */
+const LOG_FILE_SUFFIX = ".jsonl";
+const REPORT_FILE_SUFFIX = "-report.txt";
+
+/**
+ * One line of the audit log.
+ *
+ * - `check` - a path checked against the filesystem rules (`allow`/`deny`), a command
+ *   run in the sandbox (`sandbox`) or outside it because it matched `unsandboxedCommands` (`allow`),
+ *   a command blocked by `deniedCommands` (`deny`), or a host that a sandboxed command could not reach because no `allowedDomains` entry matched (`deny`)
+ * - `escalation` - a `bypassSandbox` request and who decided it (`approver`)
+ * - `run` - a bash command that finished, with its exit code (`null` if it was killed)
+ */
+export interface AuditRecord {
+  timestamp: string;
+  event: "check" | "escalation" | "run";
+  tool: EscalationTool | "network";
+  /** The command or path as given by the agent, or the host. */
+  input: string;
+  decision?: "allow" | "deny" | "sandbox";
+  rule?: RuleMatch;
+  /** For escalations: `session`, `alwaysDeny`, `limit`, the approver type, `dialog` or `none` (no UI). */
+  approver?: string;
+  /** For escalations: the agent's `bypassReason`. */
+  reason?: string;
+  /** Why an escalation failed, e.g. a timeout or an approver error. */
+  error?: string;
+  /** For runs: whether the command ran in the sandbox. */
+  sandboxed?: boolean;
+  exitCode?: number | null;
+  /** For sandboxed runs: what the sandbox blocked, if anything. */
+  violations?: SandboxViolation[];
+}
+
+export function getAuditLogDirectory(config: SandboxConfig): string {
+  return config.auditLog?.directory ? expandHomePath(config.auditLog.directory) : join(homedir(), ".pi", "agent", "sandbox-audit");
+}
+
+export function getAuditLogPath(config: SandboxConfig, sessionId: string): string {
+  return join(getAuditLogDirectory(config), `${LOG_FILE_PREFIX}${sessionId}${LOG_FILE_SUFFIX}`);
+}
+
+export function getSessionReportPath(config: SandboxConfig, sessionId: string): string {
+  return join(getAuditLogDirectory(config), `${LOG_FILE_PREFIX}${sessionId}${REPORT_FILE_SUFFIX}`);
+}
+
+/**
+ * Writes the session report next to the session's audit log, so it can be read after pi
+ * has exited. Returns its path, or `undefined` if the log is disabled, the session has not
+ * started or the file could not be written.
+ */
+export function writeSessionReport(state: Pick<SandboxState, "config" | "sessionId">, report: string): string | undefined {
+  if (state.config.auditLog?.enabled === false || !state.sessionId) {
+    return undefined;
+  }
+
+  const path = getSessionReportPath(state.config, state.sessionId);
+  try {
+    mkdirSync(getAuditLogDirectory(state.config), { recursive: true });
+    writeFileSync(path, `${report}\n`);
+    return path;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Appends a record to the session's audit log and keeps it in `state.auditRecords`. Does not
+ * write the file if the log is disabled or the session has not started. Failing to write
+ * never fails the tool call.
+ */
+export function appendAuditRecord(state: Pick<SandboxState, "config" | "sessionId" | "auditRecords">, record: Omit<AuditRecord, "timestamp">) {
+  const fullRecord: AuditRecord = { timestamp: new Date().toISOString(), ...record };
+  state.auditRecords.push(fullRecord);
+  if (state.config.auditLog?.enabled === false || !state.sessionId) {
+    return;
+  }
+
+  try {
+    mkdirSync(getAuditLogDirectory(state.config), { recursive: true });
+    appendFileSync(getAuditLogPath(state.config, state.sessionId), `${JSON.stringify(fullRecord)}\n`);
+  } catch {
+    // The audit log is best effort
+  }
+}
+
+/**
+ * Deletes log and report files that were last written more than `retentionDays` ago. Other
+ * files in the directory are never deleted.
+ */
+export function pruneAuditLogs(config: SandboxConfig, now = Date.now()) {
+  const directory = getAuditLogDirectory(config);
+  const maxAge = (config.auditLog?.retentionDays ?? DEFAULT_RETENTION_DAYS) * DAY_MS;
+
+  let files: string[];
+  try {
+    files = readdirSync(directory).filter(
+      (file) => file.startsWith(LOG_FILE_PREFIX) && (file.endsWith(LOG_FILE_SUFFIX) || file.endsWith(REPORT_FILE_SUFFIX)),
+    );
+  } catch {
+    return;
+  }
+  for (const file of files) {
+    try {
+      const path = join(directory, file);
+      if (now - statSync(path).mtimeMs > maxAge) {
+        unlinkSync(path);
+      }
+    } catch {
+      // Removed concurrently, or not ours to remove
+    }
+  }
+}
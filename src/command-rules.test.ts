@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+
+import { createCommandRuntimeConfig, isAllowedForRunningCommand } from "./command-rules";
+import type { SandboxConfig } from "./types";
+
+const config: SandboxConfig = {
+  network: { allowedDomains: ["github.com"], deniedDomains: ["evil.example.com"] },
+  filesystem: { denyRead: ["~/.ssh"], allowWrite: ["."], denyWrite: [".env"] },
+};
+
+describe("createCommandRuntimeConfig", () => {
+  it("adds the rule's entries to the filesystem config", () => {
+    expect(createCommandRuntimeConfig(config, { allowWrite: ["~/.npm"], denyRead: ["~/.aws"] })).toEqual({
+      filesystem: { denyRead: ["~/.ssh", "~/.aws"], allowWrite: [".", "~/.npm"], denyWrite: [".env"] },
+    });
+  });
+
+  it("keeps the filesystem config for rules without filesystem entries", () => {
+    expect(createCommandRuntimeConfig(config, { allowedDomains: ["registry.npmjs.org"] })).toEqual({ filesystem: config.filesystem });
+  });
+});
+
+describe("isAllowedForRunningCommand", () => {
+  it("allows the domains of running commands", () => {
+    const state = { commandRuleDomains: new Map([["run-1", ["registry.npmjs.org", "*.crates.io"]]]) };
+    expect(isAllowedForRunningCommand("registry.npmjs.org", state)).toBe(true);
+    expect(isAllowedForRunningCommand("static.crates.io", state)).toBe(true);
+    expect(isAllowedForRunningCommand("example.com", state)).toBe(false);
+  });
+
+  it("allows nothing while no such command runs", () => {
+    expect(isAllowedForRunningCommand("registry.npmjs.org", { commandRuleDomains: new Map() })).toBe(false);
+  });
+});
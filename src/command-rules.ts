@@ -0,0 +1,33 @@
+import type { SandboxRuntimeConfig } from "@anthropic-ai/sandbox-runtime";
+
+import type { SandboxState } from "./data/SandboxState";
+import { matchesDomainPattern } from "./network-ops";
+import type { CommandRuleConfig, SandboxConfig } from "./types";
+
+/**
+ * The filesystem policy a command with `rule` runs under: the session config with the
+ * rule's entries added, as the custom config of `SandboxManager.wrapWithSandbox`. Its
+ * `allowedDomains` cannot go here, since the network proxy only consults the session
+ * config; they are allowed through `isAllowedForRunningCommand` instead.
+ */
+export function createCommandRuntimeConfig(config: SandboxConfig, rule: CommandRuleConfig): Partial<SandboxRuntimeConfig> {
+  const { filesystem } = config;
+  return {
+    filesystem: {
+      ...filesystem,
+      allowWrite: [...(filesystem?.allowWrite ?? []), ...(rule.allowWrite ?? [])],
+      denyWrite: filesystem?.denyWrite ?? [],
+      denyRead: [...(filesystem?.denyRead ?? []), ...(rule.denyRead ?? [])],
+    },
+  };
+}
+
+/**
+ * Whether the network proxy should let a request to `host` through because a running
+ * command's rule allows it. The proxy is shared by all sandboxed commands, so while such a
+ * command runs, the domain is reachable for the others too. `deniedDomains` still win,
+ * since the runtime checks them before asking.
+ */
+export function isAllowedForRunningCommand(host: string, state: Pick<SandboxState, "commandRuleDomains">): boolean {
+  return [...state.commandRuleDomains.values()].some((domains) => domains.some((pattern) => matchesDomainPattern(host, pattern)));
+}
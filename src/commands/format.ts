@@ -0,0 +1,10 @@
+import { homedir } from "node:os";
+
+/**
+ * Shortens a config source for display: paths under the home directory use `~`.
+ */
+export function formatSource(source: string | undefined): string {
+  if (!source) return "unknown";
+  const home = homedir();
+  return source.startsWith(`${home}/`) ? `~${source.slice(home.length)}` : source;
+}
@@ -0,0 +1,38 @@
+import type { ExtensionCommandContext } from "@mariozechner/pi-coding-agent";
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { findConfigFile } from "../config";
+import { detectTooling, formatToolingConfig } from "../tooling";
+import { formatSource } from "./format";
+import type { SandboxCommandActions } from "./sandbox";
+
+/**
+ * `/sandbox init` proposes a project config that allows the registries and caches
+ * of the package managers detected in cwd, and writes it once the user confirms.
+ */
+export async function handleInitCommand(actions: SandboxCommandActions, ctx: ExtensionCommandContext) {
+  const existing = findConfigFile(join(ctx.cwd, ".pi"));
+  if (existsSync(existing)) {
+    ctx.ui.notify(`${formatSource(existing)} already exists`, "error");
+    return;
+  }
+
+  const tooling = detectTooling(ctx.cwd);
+  if (tooling.length === 0) {
+    ctx.ui.notify("No known package manager or build tool found in the current directory", "info");
+    return;
+  }
+
+  const path = join(ctx.cwd, ".pi", "sandbox.json");
+  const text = formatToolingConfig(tooling);
+  const detected = tooling.map((tool) => tool.name).join(", ");
+  if (!(await ctx.ui.confirm("Create Sandbox Config", `Detected: ${detected}\n\nWrite ${formatSource(path)}?\n\n${text}`))) {
+    return;
+  }
+
+  mkdirSync(join(ctx.cwd, ".pi"), { recursive: true });
+  writeFileSync(path, text);
+  await actions.reloadConfig(ctx);
+  ctx.ui.notify(`Created ${formatSource(path)}`, "info");
+}
@@ -0,0 +1,40 @@
+import type { ExtensionCommandContext } from "@mariozechner/pi-coding-agent";
+
+import { NO_PROFILE, loadConfig } from "../config";
+import type { SandboxState } from "../data/SandboxState";
+import type { SandboxCommandActions } from "./sandbox";
+
+/**
+ * `/sandbox profile` lists the available profiles, `/sandbox profile <name>` switches to one
+ * and `/sandbox profile none` goes back to the base config.
+ */
+export async function handleProfileCommand(
+  name: string | undefined,
+  state: SandboxState,
+  actions: SandboxCommandActions,
+  ctx: ExtensionCommandContext,
+) {
+  // Read from disk so profiles added since the last reload can be selected
+  const { config } = loadConfig(ctx.cwd);
+  const profiles = Object.keys(config.profiles ?? {});
+
+  if (!name) {
+    const lines = [
+      `Active profile: ${state.profile ?? "(none)"}`,
+      "",
+      "Available profiles:",
+      ...(profiles.length > 0 ? profiles.map((profile) => `  ${profile}${profile === config.defaultProfile ? " (default)" : ""}`) : ["  (none)"]),
+    ];
+    ctx.ui.notify(lines.join("\n"), "info");
+    return;
+  }
+
+  if (name !== NO_PROFILE && !profiles.includes(name)) {
+    ctx.ui.notify(`Unknown sandbox profile "${name}". Available profiles: ${profiles.join(", ") || "(none)"}`, "error");
+    return;
+  }
+
+  state.requestedProfile = name;
+  await actions.reloadConfig(ctx);
+  ctx.ui.notify(state.profile ? `Sandbox profile: ${state.profile}` : "Sandbox profile cleared", "info");
+}
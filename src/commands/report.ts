@@ -0,0 +1,13 @@
+import type { ExtensionCommandContext } from "@mariozechner/pi-coding-agent";
+
+import type { SandboxState } from "../data/SandboxState";
+import { buildSessionReport } from "../report";
+
+/**
+ * `/sandbox report` shows what the sandbox blocked and approved so far in this session,
+ * the same report that is shown when the session ends.
+ */
+export function handleReportCommand(state: SandboxState, ctx: ExtensionCommandContext) {
+  const report = buildSessionReport(state.auditRecords, state.config, ctx.cwd);
+  ctx.ui.notify(report ?? "Nothing to report yet: the sandbox has not blocked or approved anything in this session", "info");
+}
@@ -0,0 +1,121 @@
+import { NetworkConfigSchema } from "@anthropic-ai/sandbox-runtime";
+import type { ExtensionCommandContext } from "@mariozechner/pi-coding-agent";
+import { isAbsolute, resolve } from "node:path";
+
+import { checkConfigText, formatDiagnostic, getConfigPaths } from "../config";
+import { getConfigVariables } from "../config-variables";
+import { updateConfigFile } from "../config-writer";
+import type { SandboxState } from "../data/SandboxState";
+import { expandHomePath } from "../file-ops";
+import { applyRuleToConfigText } from "../rules";
+import { compileCommandPattern } from "../sandbox-ops";
+import type { SandboxRule } from "../types";
+import { formatSource } from "./format";
+import type { SandboxCommandActions } from "./sandbox";
+
+const KINDS: SandboxRule["kind"][] = ["domain", "read", "write", "command"];
+const SCOPES = ["project", "global"] as const;
+
+/**
+ * Splits command arguments on whitespace, keeping single- or double-quoted strings together.
+ * Inside double quotes, a backslash escapes the next character (see `formatRuleArguments`).
+ */
+function tokenize(args: string): string[] {
+  return [...args.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S+)/g)].map((match) => match[1]?.replace(/\\(.)/g, "$1") ?? match[2] ?? match[3]);
+}
+
+function validate(rule: SandboxRule): string | undefined {
+  if (rule.kind === "domain") {
+    const result = NetworkConfigSchema.shape.allowedDomains.element.safeParse(rule.value);
+    return result.success ? undefined : result.error.issues[0]?.message;
+  }
+  if (rule.kind === "command") {
+    try {
+      compileCommandPattern(rule.value);
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * `/sandbox allow|deny <domain|read|write|command> <value> [--save project|global]` changes the
+ * rules of the running sandbox. Without `--save` the change lasts for the session (and
+ * survives config reloads); with it, the change is written to the project or global config.
+ */
+export async function handleRuleCommand(
+  action: SandboxRule["action"],
+  args: string,
+  state: SandboxState,
+  actions: SandboxCommandActions,
+  ctx: ExtensionCommandContext,
+) {
+  const usage = `Usage: /sandbox ${action} <domain|read|write|command> <value> [--save project|global]`;
+  const tokens = tokenize(args);
+
+  let scope: (typeof SCOPES)[number] | undefined;
+  const saveIndex = tokens.indexOf("--save");
+  if (saveIndex !== -1) {
+    const [, value] = tokens.splice(saveIndex, 2);
+    if (!SCOPES.includes(value as (typeof SCOPES)[number])) {
+      ctx.ui.notify(`--save must be "project" or "global". ${usage}`, "error");
+      return;
+    }
+    scope = value as (typeof SCOPES)[number];
+  }
+
+  const [kind, ...rest] = tokens;
+  if (!KINDS.includes(kind as SandboxRule["kind"]) || rest.length === 0) {
+    ctx.ui.notify(usage, "error");
+    return;
+  }
+  if (!state.enabled) {
+    ctx.ui.notify("Sandbox is disabled", "error");
+    return;
+  }
+
+  let value = rest.join(" ");
+  if ((kind === "read" || kind === "write") && scope === "global" && !isAbsolute(expandHomePath(value))) {
+    // The global config is shared by every project, so relative paths would change meaning
+    value = resolve(ctx.cwd, value);
+  }
+
+  const rule: SandboxRule = { action, kind: kind as SandboxRule["kind"], value };
+  const error = validate(rule);
+  if (error) {
+    ctx.ui.notify(`Invalid ${kind} "${value}": ${error}`, "error");
+    return;
+  }
+
+  let where = "for this session";
+  if (scope) {
+    const paths = getConfigPaths(ctx.cwd);
+    const path = scope === "global" ? paths.global : paths.project;
+    try {
+      // A file that fails to load is ignored as a whole (or stops pi under strictConfig), so never write one
+      updateConfigFile(path, (text) => {
+        const updated = applyRuleToConfigText(text, rule, state.config);
+        const problems = checkConfigText(path, updated, getConfigVariables(ctx.cwd));
+        if (problems.length > 0) {
+          throw new Error([`${formatSource(path)} would be invalid:`, ...problems.map(formatDiagnostic)].join("\n"));
+        }
+        return updated;
+      });
+    } catch (err) {
+      ctx.ui.notify(`Not saved: ${err instanceof Error ? err.message : err}`, "error");
+      return;
+    }
+    where = `in ${formatSource(path)}`;
+  }
+
+  // The latest decision about a value wins, whether it is kept for the session or saved
+  state.sessionRules = state.sessionRules.filter((existing) => existing.kind !== rule.kind || existing.value !== rule.value);
+  if (!scope) {
+    state.sessionRules.push(rule);
+  }
+
+  await actions.reloadConfig(ctx);
+  const verb = action === "allow" ? "Allowed" : "Denied";
+  ctx.ui.notify(`${verb} ${kind} ${value} ${where}`, "info");
+}
@@ -1,34 +1,170 @@
-import type { ExtensionCommandContext } from "@mariozechner/pi-coding-agent";
+import type { ExtensionCommandContext, ExtensionContext } from "@mariozechner/pi-coding-agent";
 
-import { loadConfig } from "../config";
+import { getAuditLogPath } from "../audit-log";
+import { formatDiagnostic } from "../config";
+import type { SandboxState } from "../data/SandboxState";
+import { formatEscalationBudgets } from "../escalation-limits";
+import type { ConfigSources } from "../types";
+import { formatSource } from "./format";
+import { handleInitCommand } from "./init";
+import { handleProfileCommand } from "./profile";
+import { handleReportCommand } from "./report";
+import { handleRuleCommand } from "./rules";
+import { handleOffCommand, handleOnCommand, handleStatusCommand } from "./toggle";
+import { handleWhyCommand } from "./why";
 
-export function createSandboxCommand(isSandboxEnabled: () => boolean) {
+/**
+ * Operations owned by the extension entry point that subcommands need to trigger.
+ */
+export interface SandboxCommandActions {
+  /** Re-applies the config (including the requested profile) and tells the agent about it. */
+  reloadConfig(ctx: ExtensionContext): Promise<void>;
+  /** Turns the sandbox off, and back on after `durationMs` if given. */
+  turnOff(ctx: ExtensionContext, durationMs?: number): Promise<void>;
+  /** Turns the sandbox back on after `/sandbox off`. */
+  turnOn(ctx: ExtensionContext): Promise<void>;
+}
+
+/**
+ * Lists the entries of one array of the effective config, each with the file it came from.
+ */
+function formatRules(title: string, path: string, values: string[] | undefined, sources: ConfigSources): string[] {
+  if (!values?.length) {
+    return [`  ${title}: (none)`];
+  }
+  return [`  ${title}:`, ...values.map((value) => `    ${value}  [${formatSource(sources[path]?.[value])}]`)];
+}
+
+/**
+ * Lists each `commandRules` pattern with the entries it adds, each with the file it came from.
+ */
+function formatCommandRules(config: SandboxState["config"], sources: ConfigSources): string[] {
+  const rules = Object.entries(config.commandRules ?? {});
+  if (rules.length === 0) {
+    return ["  (none)"];
+  }
+  return rules.flatMap(([pattern, rule]) => [
+    `  ${pattern}:`,
+    ...(
+      [
+        ["Allowed Domains", "allowedDomains"],
+        ["Allow Write", "allowWrite"],
+        ["Deny Read", "denyRead"],
+      ] as const
+    )
+      .filter(([, key]) => rule[key]?.length)
+      .flatMap(([title, key]) => formatRules(title, `commandRules.${pattern}.${key}`, rule[key], sources).map((line) => `  ${line}`)),
+  ]);
+}
+
+function showSandboxConfig(state: SandboxState, ctx: ExtensionCommandContext) {
+  if (!state.enabled) {
+    ctx.ui.notify(state.turnedOff ? "Sandbox is off, run /sandbox on to turn it back on" : "Sandbox is disabled", "info");
+    return;
+  }
+
+  // state.config is the result of merging defaults, extended, global and project config
+  const { config, configSources: sources } = state;
+  const lines = [
+    "Effective Sandbox Configuration:",
+    "",
+    `Profile: ${state.profile ?? "(none)"}`,
+    `Audit Log: ${config.auditLog?.enabled === false ? "(disabled)" : formatSource(getAuditLogPath(config, state.sessionId))}`,
+    "",
+    "Config Files:",
+    ...(state.configFiles.length > 0 ? state.configFiles.map((file) => `  ${formatSource(file)}`) : ["  (none, using defaults)"]),
+    "",
+    ...formatRules("Bypassed Commands", "unsandboxedCommands", config.unsandboxedCommands, sources),
+    `  Allow Compound Commands: ${config.allowCompoundCommands ?? false}`,
+    ...formatRules("Denied Commands", "deniedCommands", config.deniedCommands, sources),
+    "",
+    "Command Rules:",
+    ...formatCommandRules(config, sources),
+    "",
+    "Network:",
+    ...formatRules("Allowed", "network.allowedDomains", config.network?.allowedDomains, sources),
+    ...formatRules("Denied", "network.deniedDomains", config.network?.deniedDomains, sources),
+    `  Allow Local Binding: ${config.network?.allowLocalBinding ?? false}`,
+    "",
+    "Filesystem:",
+    ...formatRules("Deny Read", "filesystem.denyRead", config.filesystem?.denyRead, sources),
+    ...formatRules("Allow Read", "filesystem.allowRead", config.filesystem?.allowRead, sources),
+    ...formatRules("Allow Write", "filesystem.allowWrite", config.filesystem?.allowWrite, sources),
+    ...formatRules("Deny Write", "filesystem.denyWrite", config.filesystem?.denyWrite, sources),
+    "",
+    "Always Denied Escalations:",
+    ...formatRules("Commands", "alwaysDeny.commands", config.alwaysDeny?.commands, sources),
+    ...formatRules("Read", "alwaysDeny.read", config.alwaysDeny?.read, sources),
+    ...formatRules("Write", "alwaysDeny.write", config.alwaysDeny?.write, sources),
+  ];
+  const budgets = formatEscalationBudgets(state);
+  if (budgets.length > 0) {
+    lines.push("", "Escalation Budget:", ...budgets.map((budget) => `  ${budget}`));
+  }
+  if (state.approvalGrants.length > 0) {
+    lines.push(
+      "",
+      "Session Approvals:",
+      ...state.approvalGrants.map((grant) => `  ${grant.allow ? "allow" : "deny"} ${grant.kind}: ${formatSource(grant.key)} (${grant.reason})`),
+    );
+  }
+  if (state.configDiagnostics.length > 0) {
+    lines.push("", "Config Problems:", ...state.configDiagnostics.map((diagnostic) => `  ${formatDiagnostic(diagnostic)}`));
+  }
+  ctx.ui.notify(lines.join("\n"), "info");
+}
+
+const USAGE = [
+  "/sandbox",
+  "/sandbox allow|deny <domain|read|write|command> <value> [--save project|global]",
+  "/sandbox init",
+  "/sandbox on",
+  "/sandbox off [duration]",
+  "/sandbox profile [name]",
+  "/sandbox report",
+  "/sandbox status",
+  "/sandbox why <path|domain|command>",
+];
+
+export function createSandboxCommand(state: SandboxState, actions: SandboxCommandActions) {
   return {
-    description: "Show sandbox configuration",
-    handler: async (_args: string, ctx: ExtensionCommandContext) => {
-      if (!isSandboxEnabled()) {
-        ctx.ui.notify("Sandbox is disabled", "info");
-        return;
-      }
+    description: "Show the effective sandbox configuration; allow, deny, init, on, off, profile, report, status and why subcommands",
+    handler: async (args: string, ctx: ExtensionCommandContext) => {
+      const [subcommand, ...rest] = args.trim().split(/\s+/).filter(Boolean);
 
-      const config = loadConfig(ctx.cwd);
-      const lines = [
-        "Sandbox Configuration:",
-        "",
-        "Bypassed Commands:",
-        `  ${config.unsandboxedCommands?.join(", ") || "(none)"}`,
-        "",
-        "Network:",
-        `  Allowed: ${config.network?.allowedDomains?.join(", ") || "(none)"}`,
-        `  Denied: ${config.network?.deniedDomains?.join(", ") || "(none)"}`,
-        `  Allow Local Binding: ${config.network?.allowLocalBinding ?? false}`,
-        "",
-        "Filesystem:",
-        `  Deny Read: ${config.filesystem?.denyRead?.join(", ") || "(none)"}`,
-        `  Allow Write: ${config.filesystem?.allowWrite?.join(", ") || "(none)"}`,
-        `  Deny Write: ${config.filesystem?.denyWrite?.join(", ") || "(none)"}`,
-      ];
-      ctx.ui.notify(lines.join("\n"), "info");
+      switch (subcommand) {
+        case undefined:
+          showSandboxConfig(state, ctx);
+          return;
+        case "allow":
+        case "deny":
+          await handleRuleCommand(subcommand, args.trim().slice(subcommand.length), state, actions, ctx);
+          return;
+        case "init":
+          await handleInitCommand(actions, ctx);
+          return;
+        case "off":
+          await handleOffCommand(rest[0], state, actions, ctx);
+          return;
+        case "on":
+          await handleOnCommand(state, actions, ctx);
+          return;
+        case "status":
+          handleStatusCommand(state, ctx);
+          return;
+        case "profile":
+          await handleProfileCommand(rest[0], state, actions, ctx);
+          return;
+        case "report":
+          handleReportCommand(state, ctx);
+          return;
+        case "why":
+          // Keep the original spacing and quoting so commands are explained exactly as written
+          handleWhyCommand(args.trim().slice("why".length).trim(), state, ctx);
+          return;
+        default:
+          ctx.ui.notify([`Unknown /sandbox subcommand "${subcommand}". Usage:`, ...USAGE.map((usage) => `  ${usage}`)].join("\n"), "error");
+      }
     },
   };
 }
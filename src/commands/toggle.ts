@@ -0,0 +1,70 @@
+import type { ExtensionCommandContext } from "@mariozechner/pi-coding-agent";
+
+import type { SandboxState } from "../data/SandboxState";
+import { MAX_DURATION_MS, formatDuration, parseDuration } from "../duration";
+import type { SandboxCommandActions } from "./sandbox";
+
+/**
+ * `/sandbox off [duration]` turns the sandbox off after confirmation, optionally only
+ * for a while (e.g. `/sandbox off 15m`).
+ */
+export async function handleOffCommand(
+  durationText: string | undefined,
+  state: SandboxState,
+  actions: SandboxCommandActions,
+  ctx: ExtensionCommandContext,
+) {
+  let durationMs: number | undefined;
+  if (durationText) {
+    durationMs = parseDuration(durationText);
+    if (!durationMs) {
+      const longest = formatDuration(Math.floor(MAX_DURATION_MS / 3_600_000) * 3_600_000);
+      ctx.ui.notify(`Invalid duration "${durationText}". Use e.g. 30s, 15m or 2h, at most ${longest}`, "error");
+      return;
+    }
+  }
+  if (!state.enabled) {
+    ctx.ui.notify(state.turnedOff ? "Sandbox is already off" : "Sandbox is not running", "info");
+    return;
+  }
+
+  const duration = durationMs ? ` for ${formatDuration(durationMs)}` : " until /sandbox on";
+  const confirmed = await ctx.ui.confirm(
+    "Turn Off Sandbox",
+    `Commands and file operations will run without sandbox restrictions${duration}. Continue?`,
+  );
+  if (!confirmed) return;
+
+  await actions.turnOff(ctx, durationMs);
+  ctx.ui.notify(`Sandbox off${duration}`, "warning");
+}
+
+/**
+ * `/sandbox on` turns the sandbox back on after `/sandbox off`.
+ */
+export async function handleOnCommand(state: SandboxState, actions: SandboxCommandActions, ctx: ExtensionCommandContext) {
+  if (!state.turnedOff) {
+    ctx.ui.notify(state.enabled ? "Sandbox is already on" : "Sandbox was not turned off with /sandbox off", "info");
+    return;
+  }
+
+  await actions.turnOn(ctx);
+}
+
+/**
+ * `/sandbox status` reports whether the sandbox is running, and why not if it isn't.
+ */
+export function handleStatusCommand(state: SandboxState, ctx: ExtensionCommandContext) {
+  if (state.enabled) {
+    ctx.ui.notify(`Sandbox: on${state.profile ? ` (profile ${state.profile})` : ""}`, "info");
+  } else if (state.turnedOff?.until) {
+    const remainingMinutes = Math.max(1, Math.ceil((state.turnedOff.until - Date.now()) / 60_000));
+    ctx.ui.notify(`Sandbox: off, back on in ${formatDuration(remainingMinutes * 60_000)}`, "info");
+  } else if (state.turnedOff) {
+    ctx.ui.notify("Sandbox: off until /sandbox on", "info");
+  } else if (state.config.enabled === false) {
+    ctx.ui.notify("Sandbox: disabled via config", "info");
+  } else {
+    ctx.ui.notify("Sandbox: not running", "info");
+  }
+}
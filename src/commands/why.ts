@@ -0,0 +1,137 @@
+import type { ExtensionCommandContext } from "@mariozechner/pi-coding-agent";
+
+import { resolveConfigForPath } from "../config";
+import type { SandboxState } from "../data/SandboxState";
+import { explainRead, explainWrite } from "../file-ops";
+import { explainDomain } from "../network-ops";
+import {
+  findCommandRule,
+  findCompoundUnsandboxedPatterns,
+  findDeniedCommand,
+  findUnsandboxedCompoundMatches,
+  findUnsandboxedPattern,
+} from "../sandbox-ops";
+import type { ConfigSources, RuleDecision } from "../types";
+import { formatSource } from "./format";
+
+const USAGE = "Usage: /sandbox why <path|domain|command>";
+
+/**
+ * A single token that starts like a path or contains a `/` or `.` (e.g. `src/index.ts`, `.env`).
+ */
+function looksLikePath(input: string): boolean {
+  return !/\s/.test(input) && (/^[/~.]/.test(input) || input.includes("/") || input.includes("."));
+}
+
+/**
+ * A dotted hostname such as `github.com` or `api.example.org`.
+ */
+function looksLikeDomain(input: string): boolean {
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(input);
+}
+
+/**
+ * Anything with arguments, or a single word that is neither a path nor a domain (e.g. `make`).
+ */
+function looksLikeCommand(input: string): boolean {
+  return /\s/.test(input) || !looksLikePath(input);
+}
+
+/**
+ * Formats a decision as `allowed by filesystem.allowWrite "src" [~/project/.pi/sandbox.json]`,
+ * falling back to `fallback` when no rule matched and the check's default applied.
+ */
+function formatDecision(decision: RuleDecision, sources: ConfigSources, verbs: [string, string], fallback: string): string {
+  const verb = decision.allowed ? verbs[0] : verbs[1];
+  if (!decision.rule) {
+    return `${verb} (${fallback})`;
+  }
+  const { key, pattern } = decision.rule;
+  return `${verb} by ${key} "${pattern}"  [${formatSource(sources[key]?.[pattern])}]`;
+}
+
+function explainPath(path: string, state: SandboxState, cwd: string): string[] {
+  // Nested configs between cwd and the path apply, as they do for the read/write/edit tools
+  const { config, sources } = resolveConfigForPath(path, cwd, state);
+  const read = explainRead(path, cwd, config);
+  const write = explainWrite(path, cwd, config);
+  const writeFallback = config.filesystem?.allowWrite?.length ? "no allowWrite pattern matches" : "no allowWrite restrictions";
+  return [
+    `Path ${path}:`,
+    `  Read: ${formatDecision(read, sources, ["allowed", "denied"], "no denyRead pattern matches")}`,
+    `  Write: ${formatDecision(write, sources, ["allowed", "denied"], writeFallback)}`,
+  ];
+}
+
+function explainNetwork(domain: string, state: SandboxState): string[] {
+  const decision = explainDomain(domain, state.config);
+  return [`Domain ${domain}:`, `  Network: ${formatDecision(decision, state.configSources, ["allowed", "blocked"], "not in allowedDomains")}`];
+}
+
+function explainCommand(command: string, state: SandboxState): string[] {
+  const patterns = state.config.unsandboxedCommands ?? [];
+  const lines = [`Command ${command}:`];
+
+  const denied = findDeniedCommand(command, state.config.deniedCommands ?? []);
+  if (denied) {
+    const source = formatSource(state.configSources.deniedCommands?.[denied.pattern]);
+    lines.push(`  Never runs: "${denied.subcommand}" matches deniedCommands "${denied.pattern}"  [${source}]`);
+    return lines;
+  }
+
+  const pattern = findUnsandboxedPattern(command, patterns);
+  if (pattern !== undefined) {
+    const source = formatSource(state.configSources.unsandboxedCommands?.[pattern]);
+    lines.push(`  Runs outside the sandbox without approval, matched by unsandboxedCommands "${pattern}"  [${source}]`);
+    return lines;
+  }
+
+  const segmentPatterns = state.config.allowCompoundCommands ? findCompoundUnsandboxedPatterns(command, patterns) : undefined;
+  if (segmentPatterns) {
+    lines.push("  Runs outside the sandbox without approval, every segment matches unsandboxedCommands (allowCompoundCommands):");
+    for (const segmentPattern of segmentPatterns) {
+      lines.push(`    "${segmentPattern}"  [${formatSource(state.configSources.unsandboxedCommands?.[segmentPattern])}]`);
+    }
+    return lines;
+  }
+
+  lines.push("  Runs in the sandbox; running it outside the sandbox needs approval");
+  for (const rulePattern of findCommandRule(command, state.config)?.patterns ?? []) {
+    const { allowedDomains = [], allowWrite = [], denyRead = [] } = state.config.commandRules?.[rulePattern] ?? {};
+    const entries = [
+      ...allowedDomains.map((domain) => `domain ${domain}`),
+      ...allowWrite.map((path) => `write ${path}`),
+      ...denyRead.map((path) => `deny read ${path}`),
+    ];
+    lines.push(`  Matched by commandRules "${rulePattern}", which adds: ${entries.join(", ") || "(nothing)"}`);
+  }
+  for (const match of findUnsandboxedCompoundMatches(command, patterns)) {
+    const source = formatSource(state.configSources.unsandboxedCommands?.[match.pattern]);
+    lines.push(`  Compound command: "${match.subcommand}" alone would match unsandboxedCommands "${match.pattern}"  [${source}]`);
+  }
+  return lines;
+}
+
+/**
+ * `/sandbox why <input>` explains how the sandbox treats a path, a domain or a
+ * command: whether it is allowed, which rule decided and which file that rule
+ * came from. Inputs that fit more than one kind (e.g. `package.json`) are
+ * explained as each of them.
+ */
+export function handleWhyCommand(input: string, state: SandboxState, ctx: ExtensionCommandContext) {
+  if (!input) {
+    ctx.ui.notify(USAGE, "error");
+    return;
+  }
+  if (!state.enabled) {
+    ctx.ui.notify("Sandbox is disabled: paths, domains and commands are not restricted", "info");
+    return;
+  }
+
+  const sections: string[][] = [];
+  if (looksLikePath(input)) sections.push(explainPath(input, state, ctx.cwd));
+  if (looksLikeDomain(input)) sections.push(explainNetwork(input, state));
+  if (looksLikeCommand(input)) sections.push(explainCommand(input, state));
+
+  ctx.ui.notify(sections.map((lines) => lines.join("\n")).join("\n\n"), "info");
+}
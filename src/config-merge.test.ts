@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+
+import { mergeConfigLayers } from "./config-merge";
+import type { SandboxConfig, SandboxConfigLayer } from "./types";
+
+const base: SandboxConfig = {
+  enabled: true,
+  unsandboxedCommands: ["npm test"],
+  network: { allowedDomains: ["github.com"], deniedDomains: [] },
+  filesystem: { denyRead: ["~/.ssh", "~/.aws", "~/.pi"], allowWrite: ["."], denyWrite: [".env"] },
+};
+
+function merge(...layers: SandboxConfigLayer[]): SandboxConfig {
+  return mergeConfigLayers(
+    base,
+    layers.map((layer, i) => ({ source: `layer${i}`, layer })),
+  ).config;
+}
+
+describe("mergeConfigLayers", () => {
+  it("returns the base when there are no layers", () => {
+    expect(merge()).toEqual(base);
+  });
+
+  it("extends arrays in layer order", () => {
+    const merged = merge({ network: { allowedDomains: ["npmjs.org"], deniedDomains: [] } }, { unsandboxedCommands: ["git status"] });
+    expect(merged.network.allowedDomains).toEqual(["github.com", "npmjs.org"]);
+    expect(merged.unsandboxedCommands).toEqual(["npm test", "git status"]);
+  });
+
+  it("skips duplicate entries", () => {
+    const merged = merge({ unsandboxedCommands: ["npm test", "git status"] });
+    expect(merged.unsandboxedCommands).toEqual(["npm test", "git status"]);
+  });
+
+  it("removes inherited entries with a ! prefix", () => {
+    const merged = merge({ filesystem: { denyRead: ["!~/.pi"], allowWrite: [], denyWrite: [] } });
+    expect(merged.filesystem.denyRead).toEqual(["~/.ssh", "~/.aws"]);
+  });
+
+  it("ignores negations of entries that are not inherited", () => {
+    const merged = merge({ unsandboxedCommands: ["!docker"] });
+    expect(merged.unsandboxedCommands).toEqual(["npm test"]);
+  });
+
+  it("lets a later layer add back an entry an earlier layer removed", () => {
+    const merged = merge({ unsandboxedCommands: ["!npm test"] }, { unsandboxedCommands: ["npm test"] });
+    expect(merged.unsandboxedCommands).toEqual(["npm test"]);
+  });
+
+  it("replaces keys listed in the replace directive", () => {
+    const merged = merge({ replace: ["filesystem.denyRead"], filesystem: { denyRead: ["~/.gnupg"], allowWrite: ["/tmp"], denyWrite: [] } });
+    expect(merged.filesystem.denyRead).toEqual(["~/.gnupg"]);
+    expect(merged.filesystem.allowWrite).toEqual([".", "/tmp"]);
+  });
+
+  it("only applies the replace directive to its own layer", () => {
+    const merged = merge({ replace: ["unsandboxedCommands"], unsandboxedCommands: ["make"] }, { unsandboxedCommands: ["git status"] });
+    expect(merged.unsandboxedCommands).toEqual(["make", "git status"]);
+  });
+
+  it("overrides scalar values", () => {
+    expect(merge({ enabled: false }).enabled).toBe(false);
+  });
+
+  it("replaces profiles by name instead of merging them", () => {
+    const merged = merge(
+      { profiles: { dev: { unsandboxedCommands: ["npm run *"] }, ci: { enabled: false } } },
+      { profiles: { dev: { unsandboxedCommands: ["!npm test"] } } },
+    );
+    expect(merged.profiles).toEqual({ dev: { unsandboxedCommands: ["!npm test"] }, ci: { enabled: false } });
+  });
+
+  it("does not keep merge directives in the result", () => {
+    const merged = merge({ extends: ["./team.json"], replace: ["unsandboxedCommands"], ignoreDefaults: true });
+    expect(merged).not.toHaveProperty("extends");
+    expect(merged).not.toHaveProperty("replace");
+    expect(merged).not.toHaveProperty("ignoreDefaults");
+  });
+
+  it("does not mutate the base", () => {
+    merge({ unsandboxedCommands: ["!npm test", "make"] });
+    expect(base.unsandboxedCommands).toEqual(["npm test"]);
+  });
+
+  describe("sources", () => {
+    const empty: SandboxConfig = {
+      network: { allowedDomains: [], deniedDomains: [] },
+      filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+    };
+
+    it("records the layer each entry came from", () => {
+      const { sources } = mergeConfigLayers(empty, [
+        { source: "defaults", layer: base },
+        { source: "/project/.pi/sandbox.json", layer: { network: { allowedDomains: ["npmjs.org"], deniedDomains: [] } } },
+      ]);
+      expect(sources["network.allowedDomains"]).toEqual({ "github.com": "defaults", "npmjs.org": "/project/.pi/sandbox.json" });
+      expect(sources["filesystem.denyRead"]?.["~/.ssh"]).toBe("defaults");
+    });
+
+    it("keeps the source that first added an entry", () => {
+      const { sources } = mergeConfigLayers(empty, [
+        { source: "defaults", layer: base },
+        { source: "project", layer: { unsandboxedCommands: ["npm test"] } },
+      ]);
+      expect(sources.unsandboxedCommands).toEqual({ "npm test": "defaults" });
+    });
+
+    it("drops sources of removed and replaced entries", () => {
+      const { sources } = mergeConfigLayers(empty, [
+        { source: "defaults", layer: base },
+        { source: "project", layer: { replace: ["unsandboxedCommands"], unsandboxedCommands: ["make"], filesystem: { denyRead: ["!~/.pi"] } } },
+      ]);
+      expect(sources.unsandboxedCommands).toEqual({ make: "project" });
+      expect(sources["filesystem.denyRead"]).not.toHaveProperty("~/.pi");
+    });
+
+    it("records where each profile was defined", () => {
+      const { sources } = mergeConfigLayers(empty, [
+        { source: "global", layer: { profiles: { dev: {}, ci: {} } } },
+        { source: "project", layer: { profiles: { dev: {} } } },
+      ]);
+      expect(sources.profiles).toEqual({ dev: "project", ci: "global" });
+    });
+
+    it("continues from the given base sources without mutating them", () => {
+      const baseSources = { unsandboxedCommands: { "npm test": "defaults" } };
+      const { sources } = mergeConfigLayers(base, [{ source: "profile", layer: { unsandboxedCommands: ["make"] } }], baseSources);
+      expect(sources.unsandboxedCommands).toEqual({ "npm test": "defaults", make: "profile" });
+      expect(baseSources.unsandboxedCommands).toEqual({ "npm test": "defaults" });
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import type { ConfigSources, SandboxConfig, SourcedConfigLayer } from "./types";
+
+export interface MergedConfig {
+  config: SandboxConfig;
+  sources: ConfigSources;
+}
+
+/**
+ * Merges config layers on top of `base` in order (later layers take precedence).
+ *
+ * - Objects merge key by key.
+ * - Arrays extend the inherited array, skipping duplicates.
+ * - An array entry prefixed with `!` removes that entry from the inherited array
+ *   (e.g. `"!~/.pi"` in `filesystem.denyRead`). Negations are never kept in the result.
+ * - Keys listed in a layer's `replace` directive start from an empty array instead
+ *   of the inherited one.
+ * - Profiles are replaced by name rather than merged, so their negations still
+ *   apply to the base config when the profile is selected.
+ *
+ * Alongside the config, records which layer each array entry (and each profile)
+ * came from, starting from `baseSources`. An entry keeps the source that first added it.
+ *
+ * `extends`, `replace` and `ignoreDefaults` are per-file directives and are not part of the result.
+ */
+export function mergeConfigLayers(base: SandboxConfig, layers: SourcedConfigLayer[], baseSources: ConfigSources = {}): MergedConfig {
+  let merged: unknown = base;
+  const sources: ConfigSources = Object.fromEntries(Object.entries(baseSources).map(([path, entries]) => [path, { ...entries }]));
+
+  for (const { source, layer } of layers) {
+    const { extends: _extends, replace, ignoreDefaults: _ignoreDefaults, ...values } = layer;
+    merged = mergeValue(merged, values, "", { source, replace: new Set(replace), sources });
+  }
+  return { config: merged as SandboxConfig, sources };
+}
+
+interface MergeContext {
+  source: string;
+  replace: Set<string>;
+  sources: ConfigSources;
+}
+
+function mergeValue(target: unknown, source: unknown, path: string, context: MergeContext): unknown {
+  if (Array.isArray(source)) {
+    const replaced = context.replace.has(path) || !Array.isArray(target);
+    const result = replaced ? [] : [...(target as unknown[])];
+    const entrySources = replaced ? {} : { ...context.sources[path] };
+
+    for (const entry of source) {
+      if (typeof entry === "string" && entry.startsWith("!")) {
+        const negated = entry.slice(1);
+        for (let i = result.length - 1; i >= 0; i--) {
+          if (result[i] === negated) result.splice(i, 1);
+        }
+        delete entrySources[negated];
+      } else if (!result.includes(entry)) {
+        result.push(entry);
+        if (typeof entry === "string") entrySources[entry] = context.source;
+      }
+    }
+
+    context.sources[path] = entrySources;
+    return result;
+  }
+
+  if (path === "profiles" && isPlainObject(source)) {
+    context.sources[path] = { ...context.sources[path] };
+    for (const name of Object.keys(source)) {
+      context.sources[path][name] = context.source;
+    }
+    return { ...(isPlainObject(target) ? target : {}), ...source };
+  }
+
+  if (isPlainObject(source)) {
+    const result: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+    for (const [key, value] of Object.entries(source)) {
+      result[key] = mergeValue(result[key], value, path ? `${path}.${key}` : key, context);
+    }
+    return result;
+  }
+
+  return source;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,94 @@
+import { mkdirSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { type ConfigVariables, findGitRoot, interpolate, interpolateConfigLayer } from "./config-variables";
+
+const variables: ConfigVariables = {
+  cwd: "/work/repo/packages/app",
+  home: "/home/me",
+  gitRoot: "/work/repo",
+  tmpdir: "/var/tmp",
+  env: { GOPATH: "/home/me/go", EMPTY: "" },
+};
+
+describe("interpolate", () => {
+  it("leaves strings without variables unchanged", () => {
+    expect(interpolate("~/.ssh", variables)).toBe("~/.ssh");
+  });
+
+  it("replaces built-in variables", () => {
+    expect(interpolate("${cwd}/dist", variables)).toBe("/work/repo/packages/app/dist");
+    expect(interpolate("${home}/.cache", variables)).toBe("/home/me/.cache");
+    expect(interpolate("${gitRoot}/node_modules", variables)).toBe("/work/repo/node_modules");
+    expect(interpolate("${tmpdir}", variables)).toBe("/var/tmp");
+  });
+
+  it("replaces environment variables", () => {
+    expect(interpolate("${env:GOPATH}/pkg", variables)).toBe("/home/me/go/pkg");
+    expect(interpolate("x${env:EMPTY}y", variables)).toBe("xy");
+  });
+
+  it("replaces several variables in one string", () => {
+    expect(interpolate("${home}:${tmpdir}", variables)).toBe("/home/me:/var/tmp");
+  });
+
+  it("throws for unset environment variables", () => {
+    expect(() => interpolate("${env:MISSING}/pkg", variables)).toThrow('Environment variable "MISSING" is not set');
+  });
+
+  it("throws for unknown variables", () => {
+    expect(() => interpolate("${workspace}", variables)).toThrow('Unknown variable "${workspace}"');
+  });
+
+  it("throws for ${gitRoot} outside a git repository", () => {
+    expect(() => interpolate("${gitRoot}", { ...variables, gitRoot: undefined })).toThrow("not inside a git repository");
+  });
+});
+
+describe("interpolateConfigLayer", () => {
+  it("interpolates strings throughout the layer", () => {
+    const { layer, errors } = interpolateConfigLayer(
+      {
+        extends: ["${gitRoot}/sandbox.json"],
+        unsandboxedCommands: ["go build ${env:GOPATH}"],
+        filesystem: { allowWrite: ["${tmpdir}"] },
+        profiles: { go: { filesystem: { allowWrite: ["${env:GOPATH}/pkg"] } } },
+      },
+      variables,
+    );
+    expect(errors).toEqual([]);
+    expect(layer).toEqual({
+      extends: ["/work/repo/sandbox.json"],
+      unsandboxedCommands: ["go build /home/me/go"],
+      filesystem: { allowWrite: ["/var/tmp"] },
+      profiles: { go: { filesystem: { allowWrite: ["/home/me/go/pkg"] } } },
+    });
+  });
+
+  it("normalizes interpolated filesystem paths, keeping negations", () => {
+    const { layer } = interpolateConfigLayer({ filesystem: { allowWrite: ["${cwd}/../shared", "!${cwd}/../../secrets"] } }, variables);
+    expect(layer.filesystem?.allowWrite).toEqual(["/work/repo/packages/shared", "!/work/repo/secrets"]);
+  });
+
+  it("reports errors with their JSON path", () => {
+    const { errors } = interpolateConfigLayer({ filesystem: { allowWrite: [".", "${env:MISSING}"] } }, variables);
+    expect(errors).toEqual([{ path: ["filesystem", "allowWrite", 1], message: 'Environment variable "MISSING" is not set' }]);
+  });
+});
+
+describe("findGitRoot", () => {
+  let root: string | undefined;
+
+  afterEach(() => {
+    if (root) rmSync(root, { recursive: true, force: true });
+  });
+
+  it("finds the closest directory containing .git", () => {
+    root = mkdtempSync(join(tmpdir(), "pi-sandbox-git-"));
+    mkdirSync(join(root, ".git"));
+    mkdirSync(join(root, "packages", "app"), { recursive: true });
+    expect(findGitRoot(join(root, "packages", "app"))).toBe(root);
+  });
+});
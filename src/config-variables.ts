@@ -0,0 +1,122 @@
+import type { JSONPath } from "jsonc-parser";
+import { existsSync } from "node:fs";
+import { homedir, tmpdir } from "node:os";
+import { dirname, isAbsolute, join, normalize } from "node:path";
+
+import type { SandboxConfigLayer } from "./types";
+
+/**
+ * Values available to `${...}` references in config strings:
+ *
+ * - `${env:NAME}` - environment variable `NAME`
+ * - `${cwd}` - the working directory pi was started in
+ * - `${home}` - the home directory
+ * - `${gitRoot}` - the root of the git repository containing cwd
+ * - `${tmpdir}` - the OS temp directory
+ */
+export interface ConfigVariables {
+  cwd: string;
+  home: string;
+  gitRoot?: string;
+  tmpdir: string;
+  env: Record<string, string | undefined>;
+}
+
+export function getConfigVariables(cwd: string): ConfigVariables {
+  return {
+    cwd,
+    home: homedir(),
+    gitRoot: findGitRoot(cwd),
+    tmpdir: tmpdir(),
+    env: process.env,
+  };
+}
+
+/**
+ * Walks up from `dir` to the closest directory containing `.git` (a directory,
+ * or a file for worktrees and submodules).
+ */
+export function findGitRoot(dir: string): string | undefined {
+  let current = dir;
+  while (true) {
+    if (existsSync(join(current, ".git"))) {
+      return current;
+    }
+    const parent = dirname(current);
+    if (parent === current) {
+      return undefined;
+    }
+    current = parent;
+  }
+}
+
+const VARIABLE_PATTERN = /\$\{([^}]*)\}/g;
+
+/**
+ * Replaces every `${...}` reference in `value`. Throws for unknown or undefined variables.
+ */
+export function interpolate(value: string, variables: ConfigVariables): string {
+  return value.replace(VARIABLE_PATTERN, (_match, name: string) => {
+    if (name.startsWith("env:")) {
+      const envName = name.slice("env:".length);
+      const envValue = variables.env[envName];
+      if (envValue === undefined) {
+        throw new Error(`Environment variable "${envName}" is not set`);
+      }
+      return envValue;
+    }
+
+    switch (name) {
+      case "cwd":
+        return variables.cwd;
+      case "home":
+        return variables.home;
+      case "tmpdir":
+        return variables.tmpdir;
+      case "gitRoot":
+        if (!variables.gitRoot) {
+          throw new Error(`\${gitRoot} is not defined: ${variables.cwd} is not inside a git repository`);
+        }
+        return variables.gitRoot;
+      default:
+        throw new Error(`Unknown variable "\${${name}}"`);
+    }
+  });
+}
+
+/**
+ * Interpolates every string in a config layer (including profiles and `extends`).
+ * Filesystem paths that become absolute are normalized so that `${cwd}/../shared`
+ * matches like the path it refers to. Problems are returned with their JSON path.
+ */
+export function interpolateConfigLayer(
+  layer: SandboxConfigLayer,
+  variables: ConfigVariables,
+): { layer: SandboxConfigLayer; errors: { path: JSONPath; message: string }[] } {
+  const errors: { path: JSONPath; message: string }[] = [];
+
+  const visit = (value: unknown, path: JSONPath): unknown => {
+    if (typeof value === "string") {
+      if (!value.includes("${")) return value;
+      try {
+        const interpolated = interpolate(value, variables);
+        const isPath = path.includes("filesystem") || path[0] === "extends";
+        const negation = interpolated.startsWith("!") ? "!" : "";
+        const body = interpolated.slice(negation.length);
+        return isPath && isAbsolute(body) ? negation + normalize(body) : interpolated;
+      } catch (err) {
+        errors.push({ path, message: err instanceof Error ? err.message : String(err) });
+        return value;
+      }
+    }
+    if (Array.isArray(value)) {
+      return value.map((entry, index) => visit(entry, [...path, index]));
+    }
+    if (typeof value === "object" && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, visit(entry, [...path, key])]));
+    }
+    return value;
+  };
+
+  return { layer: visit(layer, []) as SandboxConfigLayer, errors };
+}
@@ -0,0 +1,36 @@
+import { type Stats, unwatchFile, watchFile } from "node:fs";
+
+const POLL_INTERVAL_MS = 1000;
+const DEBOUNCE_MS = 200;
+
+/**
+ * Watches the given config files and calls `onChange` (debounced) whenever one
+ * of them is created, modified or deleted. Returns a function that stops watching.
+ *
+ * Uses `fs.watchFile` (stat polling) rather than `fs.watch` because the files may
+ * not exist yet, and editors that save by rename would otherwise drop the watch.
+ */
+export function watchConfigFiles(paths: string[], onChange: () => void): () => void {
+  let debounceHandle: NodeJS.Timeout | undefined;
+
+  const listener = (curr: Stats, prev: Stats) => {
+    if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) return;
+    if (debounceHandle) clearTimeout(debounceHandle);
+    debounceHandle = setTimeout(() => {
+      debounceHandle = undefined;
+      onChange();
+    }, DEBOUNCE_MS);
+  };
+
+  for (const path of paths) {
+    // Non-persistent so the polling never keeps the process alive on exit
+    watchFile(path, { interval: POLL_INTERVAL_MS, persistent: false }, listener);
+  }
+
+  return () => {
+    if (debounceHandle) clearTimeout(debounceHandle);
+    for (const path of paths) {
+      unwatchFile(path, listener);
+    }
+  };
+}
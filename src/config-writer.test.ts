@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+
+import { addConfigEntry, removeConfigEntry, setConfigValue } from "./config-writer";
+
+const text = [
+  "{",
+  "  // Keep the agent on the corporate registry",
+  '  "network": {',
+  '    "allowedDomains": [',
+  '      "registry.npmjs.org", // npm install',
+  "    ],",
+  "  },",
+  "}",
+  "",
+].join("\n");
+
+describe("setConfigValue", () => {
+  it("keeps comments when changing a value", () => {
+    const result = setConfigValue(text, ["enabled"], false);
+    expect(result).toContain("// Keep the agent on the corporate registry");
+    expect(result).toContain("// npm install");
+    expect(result).toContain('"enabled": false');
+  });
+
+  it("creates missing parent objects", () => {
+    expect(JSON.parse(setConfigValue("{}", ["filesystem", "allowWrite"], ["/tmp"]))).toEqual({ filesystem: { allowWrite: ["/tmp"] } });
+  });
+
+  it("starts from an empty object for an empty file", () => {
+    expect(JSON.parse(setConfigValue("", ["enabled"], true))).toEqual({ enabled: true });
+  });
+});
+
+describe("addConfigEntry", () => {
+  it("appends to an existing array and keeps comments", () => {
+    const result = addConfigEntry(text, ["network", "allowedDomains"], "github.com");
+    expect(result).toContain("// npm install");
+    expect(result).toMatch(/"registry\.npmjs\.org",[^\n]*\n\s*"github\.com"/);
+  });
+
+  it("keeps each comment with the entry it follows", () => {
+    expect(addConfigEntry(text, ["network", "allowedDomains"], "github.com")).toBe(
+      text.replace('      "registry.npmjs.org", // npm install\n', '      "registry.npmjs.org", // npm install\n      "github.com",\n'),
+    );
+
+    const withoutTrailingComma = '{\n  "allowedDomains": [\n    "github.com" // gh\n  ]\n}\n';
+    expect(addConfigEntry(withoutTrailingComma, ["allowedDomains"], "npmjs.org")).toBe(
+      '{\n  "allowedDomains": [\n    "github.com", // gh\n    "npmjs.org"\n  ]\n}\n',
+    );
+  });
+
+  it("keeps single-line arrays on one line", () => {
+    expect(addConfigEntry('{ "allowedDomains": ["github.com" /* gh */] }', ["allowedDomains"], "npmjs.org")).toBe(
+      '{ "allowedDomains": ["github.com" /* gh */, "npmjs.org"] }',
+    );
+    expect(addConfigEntry('{ "allowedDomains": [] }', ["allowedDomains"], "npmjs.org")).toBe('{ "allowedDomains": ["npmjs.org"] }');
+  });
+
+  it("indents like the rest of the file", () => {
+    expect(addConfigEntry('{\n\t"allowedDomains": [\n\t\t"github.com"\n\t]\n}\n', ["allowedDomains"], "npmjs.org")).toBe(
+      '{\n\t"allowedDomains": [\n\t\t"github.com",\n\t\t"npmjs.org"\n\t]\n}\n',
+    );
+    expect(addConfigEntry('{\n\t"enabled": true\n}\n', ["allowWrite"], "/tmp")).toContain('\n\t"allowWrite": [\n\t\t"/tmp"\n\t]');
+  });
+
+  it("creates the array if it does not exist", () => {
+    expect(JSON.parse(addConfigEntry("{}", ["unsandboxedCommands"], "npm test"))).toEqual({ unsandboxedCommands: ["npm test"] });
+  });
+
+  it("does not add duplicates", () => {
+    expect(addConfigEntry(text, ["network", "allowedDomains"], "registry.npmjs.org")).toBe(text);
+  });
+});
+
+describe("removeConfigEntry", () => {
+  it("removes the entry and keeps the other comments", () => {
+    const result = removeConfigEntry(text, ["network", "allowedDomains"], "registry.npmjs.org");
+    expect(result).not.toContain("registry.npmjs.org");
+    expect(result).toContain("// Keep the agent on the corporate registry");
+  });
+
+  it("leaves the text unchanged when the entry is missing", () => {
+    expect(removeConfigEntry(text, ["network", "allowedDomains"], "github.com")).toBe(text);
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  type Edit,
+  type FormattingOptions,
+  type JSONPath,
+  type Node,
+  SyntaxKind,
+  applyEdits,
+  createScanner,
+  findNodeAtLocation,
+  getNodeValue,
+  modify,
+  parseTree,
+} from "jsonc-parser";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+/**
+ * Sets `jsonPath` to `value` in a JSONC config text; `undefined` removes the key.
+ * Missing parent objects are created. Only the changed range of the text is edited,
+ * so comments, key order and formatting elsewhere are preserved.
+ */
+export function setConfigValue(text: string, jsonPath: JSONPath, value: unknown): string {
+  const source = text.trim() ? text : "{}\n";
+  return applyEdits(source, modify(source, jsonPath, value, { formattingOptions: getFormatting(source) }));
+}
+
+/**
+ * Appends `entry` to the array at `jsonPath` (creating it if needed) unless it is already there.
+ * The array keeps its layout: a single-line array stays on one line, in a multi-line array the
+ * entry gets a line of its own, and comments stay with the entries they follow.
+ */
+export function addConfigEntry(text: string, jsonPath: JSONPath, entry: string): string {
+  const array = getArrayNode(text, jsonPath);
+  if (!array) {
+    return setConfigValue(text, jsonPath, [entry]);
+  }
+  if ((getNodeValue(array) as unknown[]).includes(entry)) {
+    return text;
+  }
+  return applyEdits(text, getAppendEdits(text, array, JSON.stringify(entry)));
+}
+
+/**
+ * The edits that append `value` (JSON text) to `array`, after the last entry and any
+ * comments and trailing comma that follow it.
+ */
+function getAppendEdits(text: string, array: Node, value: string): Edit[] {
+  const close = array.offset + array.length - 1;
+  const last = array.children?.at(-1);
+  if (!last) {
+    const inside = text.slice(array.offset + 1, close);
+    return [{ offset: array.offset + 1, length: inside.trim() ? 0 : inside.length, content: value }];
+  }
+
+  const lastEnd = last.offset + last.length;
+  const between = text.slice(lastEnd, close);
+  const scanner = createScanner(between, false);
+  let hasTrailingComma = false;
+  for (let token = scanner.scan(); token !== SyntaxKind.EOF; token = scanner.scan()) {
+    hasTrailingComma ||= token === SyntaxKind.CommaToken;
+  }
+
+  const lineBreak = between.lastIndexOf("\n");
+  if (lineBreak === -1) {
+    return [
+      { offset: lastEnd + between.trimEnd().length, length: 0, content: `${hasTrailingComma ? " " : ", "}${value}${hasTrailingComma ? "," : ""}` },
+    ];
+  }
+  const lineStart = text.lastIndexOf("\n", last.offset) + 1;
+  const indent = /^[ \t]*/.exec(text.slice(lineStart))![0];
+  const insertAt = lastEnd + between.slice(0, lineBreak).replace(/\r$/, "").length;
+  const eol = text[insertAt] === "\r" ? "\r\n" : "\n";
+  return [
+    ...(hasTrailingComma ? [] : [{ offset: lastEnd, length: 0, content: "," }]),
+    { offset: insertAt, length: 0, content: `${eol}${indent}${value}${hasTrailingComma ? "," : ""}` },
+  ];
+}
+
+/**
+ * Removes every occurrence of `entry` from the array at `jsonPath`.
+ */
+export function removeConfigEntry(text: string, jsonPath: JSONPath, entry: string): string {
+  let result = text;
+  for (let index = (getArray(text, jsonPath) ?? []).lastIndexOf(entry); index >= 0; ) {
+    result = applyEdits(result, modify(result, [...jsonPath, index], undefined, { formattingOptions: getFormatting(result) }));
+    index = (getArray(result, jsonPath) ?? []).lastIndexOf(entry);
+  }
+  return result;
+}
+
+/**
+ * Applies `edit` to the text of the config file at `path` (an empty config if it does
+ * not exist yet) and writes the result back, creating the directory if needed.
+ */
+export function updateConfigFile(path: string, edit: (text: string) => string): void {
+  const text = existsSync(path) ? readFileSync(path, "utf-8") : "";
+  const updated = edit(text);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, updated.endsWith("\n") ? updated : `${updated}\n`);
+}
+
+function getArray(text: string, jsonPath: JSONPath): unknown[] | undefined {
+  const node = getArrayNode(text, jsonPath);
+  return node ? getNodeValue(node) : undefined;
+}
+
+function getArrayNode(text: string, jsonPath: JSONPath): Node | undefined {
+  const root = parseTree(text, [], { allowTrailingComma: true });
+  const node = root ? findNodeAtLocation(root, jsonPath) : undefined;
+  return node?.type === "array" ? node : undefined;
+}
+
+/**
+ * Formatting options that match the text: its first indented line decides between tabs and
+ * spaces and the indent size (2 spaces for texts without one), and `\r\n` in it the EOL.
+ */
+function getFormatting(text: string): FormattingOptions {
+  const indent = /^[ \t]+(?=\S)/m.exec(text)?.[0];
+  const eol = text.includes("\r\n") ? "\r\n" : "\n";
+  if (indent?.startsWith("\t")) {
+    return { insertSpaces: false, tabSize: 4, eol };
+  }
+  return { insertSpaces: true, tabSize: indent?.length ?? 2, eol };
+}
@@ -0,0 +1,447 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  APPROVER_FILES_SOURCE,
+  CONFIG_FILES_SOURCE,
+  DEFAULT_CONFIG,
+  applyProfile,
+  checkConfigText,
+  findNestedConfigFiles,
+  formatDiagnostic,
+  loadConfig,
+  protectApproverFiles,
+  protectConfigFiles,
+  resolveConfigForPath,
+  validateConfigText,
+} from "./config";
+import { isWriteAllowed } from "./file-ops";
+import type { ApproverConfig, SandboxConfig } from "./types";
+
+const file = "/project/.pi/sandbox.json";
+
+describe("validateConfigText", () => {
+  it("accepts a valid config", () => {
+    const text = JSON.stringify({
+      enabled: true,
+      unsandboxedCommands: ["npm test"],
+      network: { allowedDomains: ["github.com"] },
+      filesystem: { allowWrite: ["."] },
+      ignoreViolations: { "*": ["/usr/bin"] },
+      enableWeakerNestedSandbox: true,
+    });
+    expect(validateConfigText(file, text)).toEqual([]);
+  });
+
+  it("accepts an empty object", () => {
+    expect(validateConfigText(file, "{}")).toEqual([]);
+  });
+
+  it("reports unknown keys at the key position", () => {
+    const text = ["{", '  "network": {', '    "allowedDomain": ["github.com"]', "  }", "}"].join("\n");
+    expect(validateConfigText(file, text)).toEqual([
+      { file, path: "network.allowedDomain", line: 3, column: 5, message: 'Unknown key "allowedDomain"' },
+    ]);
+  });
+
+  it("reports type errors at the value position", () => {
+    const text = ["{", '  "filesystem": {', '    "allowWrite": "/tmp"', "  }", "}"].join("\n");
+    const diagnostics = validateConfigText(file, text);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ path: "filesystem.allowWrite", line: 3, column: 19 });
+    expect(diagnostics[0]!.message).toMatch(/array/i);
+  });
+
+  it("reports array element errors with their index", () => {
+    const text = '{"unsandboxedCommands": ["npm test", 42]}';
+    expect(validateConfigText(file, text)).toEqual([expect.objectContaining({ path: "unsandboxedCommands[1]", line: 1, column: 38 })]);
+  });
+
+  it("accepts negated entries and merge directives", () => {
+    const text = JSON.stringify({
+      ignoreDefaults: false,
+      replace: ["filesystem.allowWrite"],
+      network: { allowedDomains: ["!*.github.com"] },
+      filesystem: { denyRead: ["!~/.pi"] },
+    });
+    expect(validateConfigText(file, text)).toEqual([]);
+  });
+
+  it("reports unknown keys in the replace directive", () => {
+    const text = JSON.stringify({ replace: ["filesystem.denyReads"] });
+    expect(validateConfigText(file, text)).toEqual([expect.objectContaining({ path: "replace[0]" })]);
+  });
+
+  it("validates approvalTimeout", () => {
+    expect(validateConfigText(file, JSON.stringify({ approvalTimeout: { seconds: 60, default: "deny" } }))).toEqual([]);
+    expect(validateConfigText(file, JSON.stringify({ approvalTimeout: { seconds: 60, default: "ask" } }))).toEqual([
+      expect.objectContaining({ path: "approvalTimeout.default" }),
+    ]);
+  });
+
+  it("reports invalid command patterns", () => {
+    const text = JSON.stringify({ unsandboxedCommands: ["git push * forbid:-f", "!npm test", "npm run 're:('"] });
+    expect(validateConfigText(file, text)).toEqual([
+      expect.objectContaining({ path: "unsandboxedCommands[2]", message: expect.stringContaining("Invalid regular expression") }),
+    ]);
+  });
+
+  it("validates commandRules", () => {
+    const rules = { "npm install *": { allowedDomains: ["registry.npmjs.org"], allowWrite: ["~/.npm"], denyRead: ["!~/.npmrc"] } };
+    expect(validateConfigText(file, JSON.stringify({ commandRules: rules }))).toEqual([]);
+    expect(validateConfigText(file, JSON.stringify({ commandRules: { "npm *": { denyWrite: [] } } }))).toEqual([
+      expect.objectContaining({ path: "commandRules.npm *.denyWrite" }),
+    ]);
+    expect(validateConfigText(file, JSON.stringify({ commandRules: { "npm run * max:two": {} } }))).toEqual([
+      expect.objectContaining({ path: "commandRules.npm run * max:two", message: expect.stringContaining("max:two") }),
+    ]);
+  });
+
+  it("validates profiles like the top level", () => {
+    const text = JSON.stringify({
+      defaultProfile: "dev",
+      profiles: { dev: { network: { allowedDomains: ["registry.npmjs.org"] } }, offline: { network: { allowedDomain: [] } } },
+    });
+    expect(validateConfigText(file, text)).toEqual([expect.objectContaining({ path: "profiles.offline.network.allowedDomain" })]);
+  });
+
+  it("reports JSON syntax errors with their position", () => {
+    const text = ["{", '  "enabled": true', '  "strictConfig": true', "}"].join("\n");
+    expect(validateConfigText(file, text)).toEqual([{ file, path: "", line: 3, column: 3, message: "Invalid JSON: CommaExpected" }]);
+  });
+
+  it("accepts comments and trailing commas", () => {
+    const text = ["{", "  // why we need it", '  "network": { "allowedDomains": ["github.com",] }, /* block */', "}"].join("\n");
+    expect(validateConfigText(file, text)).toEqual([]);
+  });
+
+  it("reports positions in the original text when there are comments", () => {
+    const text = ["{", "  /* a", "     multi-line comment */", '  "enabled": "yes", // trailing', "}"].join("\n");
+    expect(validateConfigText(file, text)).toEqual([expect.objectContaining({ path: "enabled", line: 4, column: 14 })]);
+  });
+
+  it("reports an empty file", () => {
+    expect(validateConfigText(file, "")).toEqual([{ file, path: "", line: 1, column: 1, message: "Invalid JSON: ValueExpected" }]);
+  });
+});
+
+describe("formatDiagnostic", () => {
+  it("includes file, position and path", () => {
+    expect(formatDiagnostic({ file, path: "network.allowedDomain", line: 3, column: 5, message: 'Unknown key "allowedDomain"' })).toBe(
+      `${file}:3:5: network.allowedDomain: Unknown key "allowedDomain"`,
+    );
+  });
+
+  it("omits an empty path", () => {
+    expect(formatDiagnostic({ file, path: "", line: 1, column: 1, message: "Invalid JSON: ValueExpected" })).toBe(
+      `${file}:1:1: Invalid JSON: ValueExpected`,
+    );
+  });
+});
+
+describe("applyProfile", () => {
+  const config: SandboxConfig = {
+    ...DEFAULT_CONFIG,
+    profiles: {
+      release: { network: { allowedDomains: ["registry.npmjs.org"], deniedDomains: [] } },
+      offline: { replace: ["network.allowedDomains"], network: { allowedDomains: [], deniedDomains: [] } },
+    },
+  };
+  const sources = { profiles: { release: "/project/.pi/sandbox.json", offline: "/project/.pi/sandbox.json" } };
+
+  it("returns the config unchanged when no profile is requested", () => {
+    expect(applyProfile({ config, sources }, undefined)).toEqual({ config, sources });
+  });
+
+  it("layers the requested profile on top of the config", () => {
+    const result = applyProfile({ config, sources }, "release");
+    expect(result.profile).toBe("release");
+    expect(result.config.network.allowedDomains).toEqual(["registry.npmjs.org"]);
+    expect(result.config.filesystem.denyRead).toEqual(DEFAULT_CONFIG.filesystem.denyRead);
+  });
+
+  it("attributes profile entries to the profile", () => {
+    const result = applyProfile({ config, sources }, "release");
+    expect(result.sources["network.allowedDomains"]).toEqual({ "registry.npmjs.org": "/project/.pi/sandbox.json (profile release)" });
+  });
+
+  it("falls back to defaultProfile", () => {
+    expect(applyProfile({ config: { ...config, defaultProfile: "offline" }, sources }, undefined).profile).toBe("offline");
+  });
+
+  it("lets none override defaultProfile", () => {
+    expect(applyProfile({ config: { ...config, defaultProfile: "offline" }, sources }, "none").profile).toBeUndefined();
+  });
+
+  it("throws for unknown profiles", () => {
+    expect(() => applyProfile({ config, sources }, "missing")).toThrow('Unknown sandbox profile "missing". Available profiles: release, offline');
+  });
+});
+
+describe("checkConfigText", () => {
+  const variables = { cwd: "/project", home: "/home/me", tmpdir: "/tmp", env: {} };
+
+  it("reports invalid patterns and variables that do not interpolate", () => {
+    expect(
+      checkConfigText(file, JSON.stringify({ unsandboxedCommands: ["npm test"], filesystem: { allowWrite: ["${cwd}/dist"] } }), variables),
+    ).toEqual([]);
+    expect(checkConfigText(file, JSON.stringify({ unsandboxedCommands: ["npm test && npm run build"] }), variables)).toEqual([
+      expect.objectContaining({ path: "unsandboxedCommands[0]", message: expect.stringContaining("shell operators") }),
+    ]);
+    expect(checkConfigText(file, JSON.stringify({ unsandboxedCommands: ["echo ${HOME}"] }), variables)).toEqual([
+      expect.objectContaining({ path: "unsandboxedCommands[0]", message: expect.stringContaining("Unknown variable") }),
+    ]);
+  });
+});
+
+describe("loadConfig", () => {
+  let root: string;
+  let cwd: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "pi-sandbox-config-"));
+    cwd = join(root, "project");
+    mkdirSync(join(cwd, ".pi"), { recursive: true });
+    mkdirSync(join(root, "home", ".pi", "agent"), { recursive: true });
+    vi.stubEnv("HOME", join(root, "home"));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function writeConfig(path: string, config: object) {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(config, null, 2));
+  }
+
+  it("returns the defaults when there are no config files", () => {
+    const { config, diagnostics, files } = loadConfig(cwd);
+    expect(config.filesystem.denyRead).toEqual(DEFAULT_CONFIG.filesystem.denyRead);
+    expect(diagnostics).toEqual([]);
+    expect(files).toEqual([]);
+  });
+
+  it("merges extended files before the file that extends them", () => {
+    writeConfig(join(root, "team", "base.json"), { network: { allowedDomains: ["github.com"] }, unsandboxedCommands: ["make"] });
+    writeConfig(join(cwd, ".pi", "sandbox.json"), { extends: ["../../team/base.json"], unsandboxedCommands: ["!make", "npm test"] });
+
+    const { config, sources, files } = loadConfig(cwd);
+    expect(config.network.allowedDomains).toEqual(["github.com"]);
+    expect(config.unsandboxedCommands).toEqual(["npm test"]);
+    expect(sources["network.allowedDomains"]).toEqual({ "github.com": join(root, "team", "base.json") });
+    expect(files).toEqual([join(cwd, ".pi", "sandbox.json"), join(root, "team", "base.json")]);
+  });
+
+  it("resolves extends recursively, in the order listed", () => {
+    writeConfig(join(root, "team", "a.json"), { extends: ["./shared.json"], unsandboxedCommands: ["a"] });
+    writeConfig(join(root, "team", "b.json"), { unsandboxedCommands: ["b"] });
+    writeConfig(join(root, "team", "shared.json"), { unsandboxedCommands: ["shared"] });
+    writeConfig(join(root, "home", ".pi", "agent", "sandbox.json"), { extends: [join(root, "team", "a.json"), "~/../team/b.json"] });
+    writeConfig(join(cwd, ".pi", "sandbox.json"), { unsandboxedCommands: ["project"] });
+
+    expect(loadConfig(cwd).config.unsandboxedCommands).toEqual(["shared", "a", "b", "project"]);
+  });
+
+  it("reports circular extends at the offending entry", () => {
+    writeConfig(join(root, "team", "a.json"), { extends: ["./b.json"] });
+    writeConfig(join(root, "team", "b.json"), { extends: ["./a.json"] });
+    writeConfig(join(cwd, ".pi", "sandbox.json"), { extends: ["../../team/a.json"] });
+
+    const { diagnostics } = loadConfig(cwd);
+    const a = join(root, "team", "a.json");
+    const b = join(root, "team", "b.json");
+    expect(diagnostics).toEqual([{ file: b, path: "extends[0]", line: 3, column: 5, message: `Circular extends: ${a} -> ${b} -> ${a}` }]);
+  });
+
+  it("interpolates variables before merging", () => {
+    vi.stubEnv("SHARED_DIR", join(root, "shared"));
+    writeConfig(join(cwd, ".pi", "sandbox.json"), { filesystem: { allowWrite: ["${env:SHARED_DIR}", "${cwd}/../cache"] } });
+
+    const { config, diagnostics } = loadConfig(cwd);
+    expect(diagnostics).toEqual([]);
+    expect(config.filesystem.allowWrite).toEqual([...DEFAULT_CONFIG.filesystem.allowWrite, join(root, "shared"), join(root, "cache")]);
+  });
+
+  it("reports undefined variables and ignores the file", () => {
+    writeConfig(join(cwd, ".pi", "sandbox.json"), { filesystem: { allowWrite: ["${env:PI_SANDBOX_UNSET}"] } });
+
+    const { config, diagnostics } = loadConfig(cwd);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        path: "filesystem.allowWrite[0]",
+        line: 4,
+        column: 7,
+        message: 'Environment variable "PI_SANDBOX_UNSET" is not set',
+      }),
+    ]);
+    expect(config.filesystem.allowWrite).toEqual(DEFAULT_CONFIG.filesystem.allowWrite);
+  });
+
+  it("merges the configs from the git root down to cwd", () => {
+    cwd = join(root, "repo", "packages", "app");
+    mkdirSync(join(root, "repo", ".git"), { recursive: true });
+    writeConfig(join(root, "repo", ".pi", "sandbox.json"), { filesystem: { allowWrite: ["./shared"] }, unsandboxedCommands: ["root"] });
+    writeConfig(join(root, "repo", "packages", ".pi", "sandbox.json"), { unsandboxedCommands: ["packages"] });
+    writeConfig(join(cwd, ".pi", "sandbox.json"), { filesystem: { allowWrite: ["./dist"] }, unsandboxedCommands: ["app"] });
+
+    const { config, files } = loadConfig(cwd);
+    expect(config.unsandboxedCommands).toEqual(["root", "packages", "app"]);
+    expect(config.filesystem.allowWrite).toEqual([...DEFAULT_CONFIG.filesystem.allowWrite, join(root, "repo", "shared"), "./dist"]);
+    expect(files).toEqual([
+      join(root, "repo", ".pi", "sandbox.json"),
+      join(root, "repo", "packages", ".pi", "sandbox.json"),
+      join(cwd, ".pi", "sandbox.json"),
+    ]);
+  });
+
+  it("lets protectConfigFiles write-protect parent configs and extended files", () => {
+    const repo = join(root, "repo");
+    cwd = join(repo, "packages", "app");
+    mkdirSync(join(repo, ".git"), { recursive: true });
+    mkdirSync(cwd, { recursive: true });
+    writeConfig(join(repo, ".pi", "sandbox.json"), { extends: ["../team/base.json"], filesystem: { allowWrite: ["."] } });
+    writeConfig(join(repo, "team", "base.json"), { unsandboxedCommands: ["npm test"] });
+
+    const loaded = loadConfig(cwd);
+    const { config } = protectConfigFiles(loaded, loaded.files);
+    expect(config.filesystem.denyWrite).toEqual(expect.arrayContaining([join(repo, ".pi"), join(repo, "team")]));
+    expect(isWriteAllowed(join(repo, ".pi", "sandbox.json"), cwd, config)).toBe(false);
+    expect(isWriteAllowed(join(repo, "team", "base.json"), cwd, config)).toBe(false);
+    expect(isWriteAllowed(join(repo, "README.md"), cwd, config)).toBe(true);
+  });
+
+  it("reads sandbox.jsonc with comments", () => {
+    const path = join(cwd, ".pi", "sandbox.jsonc");
+    writeFileSync(path, ["{", "  // package downloads", '  "network": { "allowedDomains": ["registry.npmjs.org"] },', "}"].join("\n"));
+
+    const { config, diagnostics, files } = loadConfig(cwd);
+    expect(diagnostics).toEqual([]);
+    expect(config.network.allowedDomains).toEqual(["registry.npmjs.org"]);
+    expect(files).toEqual([path]);
+  });
+
+  it("prefers sandbox.jsonc and reports the sandbox.json it shadows", () => {
+    writeConfig(join(cwd, ".pi", "sandbox.jsonc"), { unsandboxedCommands: ["jsonc"] });
+    writeConfig(join(cwd, ".pi", "sandbox.json"), { unsandboxedCommands: ["json"] });
+
+    const { config, diagnostics } = loadConfig(cwd);
+    expect(config.unsandboxedCommands).toEqual(["jsonc"]);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        file: join(cwd, ".pi", "sandbox.json"),
+        message: `Ignored because ${join(cwd, ".pi", "sandbox.jsonc")} takes precedence`,
+      }),
+    ]);
+  });
+
+  it("reports missing extended files", () => {
+    writeConfig(join(cwd, ".pi", "sandbox.json"), { extends: ["./missing.json"] });
+
+    expect(loadConfig(cwd).diagnostics).toEqual([
+      expect.objectContaining({ path: "extends[0]", message: `Extended config not found: ${join(cwd, ".pi", "missing.json")}` }),
+    ]);
+  });
+});
+
+describe("resolveConfigForPath", () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), "pi-sandbox-nested-"));
+    mkdirSync(join(cwd, "packages", "api", ".pi"), { recursive: true });
+    writeFileSync(
+      join(cwd, "packages", "api", ".pi", "sandbox.json"),
+      JSON.stringify({ filesystem: { denyRead: ["./secrets", "!~/.aws"] }, network: { allowedDomains: ["api.example.com"] } }),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  // The nested configs present at session start
+  const getState = () => ({ config: DEFAULT_CONFIG, configSources: {}, configFiles: [], nestedConfigFiles: findNestedConfigFiles(cwd) });
+
+  it("returns the session config for paths without nested configs", () => {
+    expect(resolveConfigForPath("src/index.ts", cwd, getState()).config).toBe(DEFAULT_CONFIG);
+    expect(resolveConfigForPath("/etc/hosts", cwd, getState()).config).toBe(DEFAULT_CONFIG);
+  });
+
+  it("merges the closest nested config, resolving its relative paths against its directory", () => {
+    const { config, sources } = resolveConfigForPath("packages/api/src/index.ts", cwd, getState());
+    const apiDir = join(cwd, "packages", "api");
+    expect(config.filesystem.denyRead).toEqual(["~/.ssh", "~/.gnupg", "~/.claude", "~/.pi", `${apiDir}/secrets`]);
+    expect(config.network.allowedDomains).toEqual(["api.example.com"]);
+    expect(sources["filesystem.denyRead"]?.[`${apiDir}/secrets`]).toBe(join(apiDir, ".pi", "sandbox.json"));
+  });
+
+  it("resolves relative paths in nested command rules against their directory", () => {
+    mkdirSync(join(cwd, "packages", "web", ".pi"), { recursive: true });
+    writeFileSync(
+      join(cwd, "packages", "web", ".pi", "sandbox.json"),
+      JSON.stringify({ commandRules: { "npm run build": { allowWrite: ["./dist"], denyRead: ["~/.aws"] } } }),
+    );
+    const { config } = resolveConfigForPath("packages/web/src/index.ts", cwd, getState());
+    expect(config.commandRules).toEqual({ "npm run build": { allowWrite: [`${join(cwd, "packages", "web")}/dist`], denyRead: ["~/.aws"] } });
+  });
+
+  it("keeps nested configs write-protected, even from configs that negate the protection", () => {
+    const state = getState();
+    const { config } = resolveConfigForPath("packages/api/.pi/sandbox.json", cwd, state);
+    expect(isWriteAllowed("packages/api/.pi/sandbox.json", cwd, config)).toBe(false);
+
+    writeFileSync(join(cwd, "packages", "api", ".pi", "sandbox.json"), JSON.stringify({ filesystem: { denyWrite: ["!**/.pi/**", "!.env"] } }));
+    expect(isWriteAllowed("packages/api/.pi/sandbox.json", cwd, resolveConfigForPath("packages/api/.pi/sandbox.json", cwd, state).config)).toBe(
+      false,
+    );
+  });
+
+  it("ignores nested configs created after session start", () => {
+    const state = getState();
+    mkdirSync(join(cwd, "sub", ".pi"), { recursive: true });
+    writeFileSync(join(cwd, "sub", ".pi", "sandbox.json"), JSON.stringify({ filesystem: { denyWrite: ["!.env", "!*.pem"] } }));
+    expect(isWriteAllowed("sub/.env", cwd, resolveConfigForPath("sub/.env", cwd, state).config)).toBe(false);
+    expect(isWriteAllowed("sub/key.pem", cwd, resolveConfigForPath("sub/key.pem", cwd, state).config)).toBe(false);
+  });
+});
+
+describe("protectConfigFiles", () => {
+  it("denies writes to .pi directories below cwd and to the config directories", () => {
+    const cwd = "/projects/myapp";
+    const { config, sources } = protectConfigFiles({ config: DEFAULT_CONFIG, sources: {} }, [`${cwd}/packages/api/.pi/sandbox.json`]);
+    expect(isWriteAllowed("sub/.pi/sandbox.json", cwd, config)).toBe(false);
+    expect(isWriteAllowed("sub/notes.md", cwd, config)).toBe(true);
+    expect(config.filesystem.denyWrite).toContain(`${cwd}/packages/api/.pi`);
+    expect(sources["filesystem.denyWrite"]?.["**/.pi/**"]).toBe(CONFIG_FILES_SOURCE);
+  });
+});
+
+describe("protectApproverFiles", () => {
+  const cwd = "/projects/myapp";
+  const withAllowedCwd: SandboxConfig = { ...DEFAULT_CONFIG, filesystem: { ...DEFAULT_CONFIG.filesystem, allowWrite: ["."] } };
+
+  it("denies writes to the rules file and the socket", () => {
+    const rules = protectApproverFiles({ config: { ...withAllowedCwd, approver: { type: "rules", path: ".pi/approvals.json" } }, sources: {} }, cwd);
+    expect(isWriteAllowed(".pi/approvals.json", cwd, rules.config)).toBe(false);
+    expect(rules.sources["filesystem.denyWrite"]?.[`${cwd}/.pi/approvals.json`]).toBe(APPROVER_FILES_SOURCE);
+
+    const socket = protectApproverFiles({ config: { ...withAllowedCwd, approver: { type: "socket", path: "approver.sock" } }, sources: {} }, cwd);
+    expect(isWriteAllowed("approver.sock", cwd, socket.config)).toBe(false);
+  });
+
+  it("denies writes to the paths among the approver command's arguments", () => {
+    const approver: ApproverConfig = { type: "command", command: ["node", "./scripts/approve.js", "--rules=strict"] };
+    const { config } = protectApproverFiles({ config: { ...withAllowedCwd, approver }, sources: {} }, cwd);
+    expect(isWriteAllowed("scripts/approve.js", cwd, config)).toBe(false);
+    expect(isWriteAllowed("scripts/build.js", cwd, config)).toBe(true);
+  });
+
+  it("leaves configs without an approver unchanged", () => {
+    const merged = { config: withAllowedCwd, sources: {} };
+    expect(protectApproverFiles(merged, cwd)).toBe(merged);
+  });
+});
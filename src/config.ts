@@ -1,9 +1,25 @@
-import deepmerge from "deepmerge";
-import { existsSync, readFileSync } from "node:fs";
+import type { SandboxRuntimeConfig } from "@anthropic-ai/sandbox-runtime";
+import {
+  type JSONPath,
+  type Node,
+  type ParseError,
+  type ParseOptions,
+  findNodeAtLocation,
+  getNodeValue,
+  parse,
+  parseTree,
+  printParseErrorCode,
+} from "jsonc-parser";
+import { existsSync, readFileSync, readdirSync } from "node:fs";
 import { homedir } from "node:os";
-import { join } from "node:path";
+import { dirname, join, resolve } from "node:path";
 
-import type { SandboxConfig } from "./types";
+import { type MergedConfig, mergeConfigLayers } from "./config-merge";
+import { type ConfigVariables, findGitRoot, getConfigVariables, interpolateConfigLayer } from "./config-variables";
+import type { SandboxState } from "./data/SandboxState";
+import { anchorPattern, expandHomePath } from "./file-ops";
+import { SandboxConfigFileSchema } from "./schema";
+import type { ConfigDiagnostic, SandboxConfig, SandboxConfigLayer, SourcedConfigLayer } from "./types";
 
 export const DEFAULT_CONFIG: SandboxConfig = {
   enabled: true,
@@ -48,28 +64,489 @@ export const DEFAULT_CONFIG: SandboxConfig = {
   },
 };
 
-export function loadConfig(cwd: string): SandboxConfig {
-  const projectConfigPath = join(cwd, ".pi", "sandbox.json");
-  const globalConfigPath = join(homedir(), ".pi", "agent", "sandbox.json");
+/**
+ * The base every merge starts from. Keeps the sections `SandboxManager` requires,
+ * with nothing in them, so the config stays usable when `ignoreDefaults` drops `DEFAULT_CONFIG`.
+ */
+export const EMPTY_CONFIG: SandboxConfig = {
+  enabled: true,
+  unsandboxedCommands: [],
+  network: {
+    allowedDomains: [],
+    deniedDomains: [],
+  },
+  filesystem: {
+    denyRead: [],
+    allowWrite: [],
+    denyWrite: [],
+  },
+};
 
-  let globalConfig: Partial<SandboxConfig> = {};
-  let projectConfig: Partial<SandboxConfig> = {};
+/** Source recorded for entries that come from `DEFAULT_CONFIG`. */
+export const DEFAULTS_SOURCE = "defaults";
 
-  if (existsSync(globalConfigPath)) {
-    try {
-      globalConfig = JSON.parse(readFileSync(globalConfigPath, "utf-8"));
-    } catch (e) {
-      console.error(`Warning: Could not parse ${globalConfigPath}: ${e}`);
+/** Source recorded for entries added with `/sandbox allow|deny` and not saved. */
+export const SESSION_SOURCE = "session";
+
+/** Source recorded for the `denyWrite` entries that protect config files, see `protectConfigFiles`. */
+export const CONFIG_FILES_SOURCE = "config protection";
+
+/** Source recorded for the `denyWrite` entries that protect the approver's files, see `protectApproverFiles`. */
+export const APPROVER_FILES_SOURCE = "approver protection";
+
+/** File names looked up in each config directory, in order of precedence. */
+export const CONFIG_FILE_NAMES = ["sandbox.jsonc", "sandbox.json"];
+
+/** Config files are JSONC: comments are allowed in both `.jsonc` and `.json` files. */
+const JSONC_OPTIONS: ParseOptions = { disallowComments: false, allowTrailingComma: true };
+
+export interface LoadedConfig extends MergedConfig {
+  diagnostics: ConfigDiagnostic[];
+  /** Every config file that was read, including the ones pulled in through `extends`. */
+  files: string[];
+}
+
+/**
+ * Paths of the config files that apply to `cwd`: the global config, the configs of the
+ * directories from the git root down to (excluding) cwd, and cwd's own project config.
+ */
+export function getConfigPaths(cwd: string): { global: string; parents: string[]; project: string } {
+  const gitRoot = findGitRoot(cwd);
+  const parents: string[] = [];
+  if (gitRoot && gitRoot !== cwd) {
+    for (let dir = dirname(cwd); ; dir = dirname(dir)) {
+      parents.unshift(getProjectConfigPath(dir));
+      if (dir === gitRoot) break;
+    }
+  }
+
+  return {
+    global: findConfigFile(join(homedir(), ".pi", "agent")),
+    parents,
+    project: getProjectConfigPath(cwd),
+  };
+}
+
+/**
+ * The config file in `dir`: `sandbox.jsonc` if it exists, otherwise `sandbox.json`
+ * (which may not exist either).
+ */
+export function findConfigFile(dir: string): string {
+  const paths = CONFIG_FILE_NAMES.map((name) => join(dir, name));
+  return paths.find((path) => existsSync(path)) ?? paths[paths.length - 1];
+}
+
+function getProjectConfigPath(dir: string): string {
+  return findConfigFile(join(dir, ".pi"));
+}
+
+function isWithin(path: string, dir: string): boolean {
+  return path === dir || path.startsWith(dir.endsWith("/") ? dir : `${dir}/`);
+}
+
+/**
+ * Loads and merges, in order: `DEFAULT_CONFIG`, the global config, the `.pi/sandbox.json`
+ * of each directory from the git root down to cwd, and cwd's own project config.
+ * Each file is preceded by the files it extends.
+ *
+ * Relative filesystem patterns in a parent directory's config are resolved against
+ * that directory, so `"."` in `<repo>/.pi/sandbox.json` means the repo root.
+ */
+export function loadConfig(cwd: string): LoadedConfig {
+  const paths = getConfigPaths(cwd);
+  const variables = getConfigVariables(cwd);
+  const diagnostics: ConfigDiagnostic[] = [];
+  const files: string[] = [];
+
+  for (const path of [paths.global, ...paths.parents, paths.project]) {
+    const shadowed = CONFIG_FILE_NAMES.map((name) => join(dirname(path), name)).filter((other) => other !== path && existsSync(other));
+    for (const file of shadowed) {
+      diagnostics.push({ file, path: "", line: 1, column: 1, message: `Ignored because ${path} takes precedence` });
     }
   }
 
-  if (existsSync(projectConfigPath)) {
+  const layers = [
+    ...readConfigLayers(paths.global, variables, diagnostics, files),
+    ...paths.parents.flatMap((path) => readConfigLayers(path, variables, diagnostics, files, dirname(dirname(path)))),
+    ...readConfigLayers(paths.project, variables, diagnostics, files),
+  ];
+
+  // The last file that sets ignoreDefaults decides
+  const ignoreDefaults = layers.reduce((ignore, { layer }) => layer.ignoreDefaults ?? ignore, false);
+  if (!ignoreDefaults) {
+    layers.unshift({ source: DEFAULTS_SOURCE, layer: DEFAULT_CONFIG });
+  }
+
+  return { ...mergeConfigLayers(EMPTY_CONFIG, layers), diagnostics, files };
+}
+
+/**
+ * Reads a config file and, recursively, the files it `extends`. Returns the layers in
+ * merge order: each extended file (after whatever it extends itself), then the file.
+ * Relative `extends` paths are resolved against the directory of the extending file.
+ * With `anchorDir`, relative filesystem patterns are resolved against it (see `anchorLayerPaths`).
+ */
+function readConfigLayers(
+  path: string,
+  variables: ConfigVariables,
+  diagnostics: ConfigDiagnostic[],
+  files: string[],
+  anchorDir?: string,
+  chain: string[] = [],
+): SourcedConfigLayer[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  if (!files.includes(path)) files.push(path);
+  const fileLayer = readConfigFile(path, variables, diagnostics);
+  const layer = anchorDir ? anchorLayerPaths(fileLayer, anchorDir) : fileLayer;
+  const layers: SourcedConfigLayer[] = [];
+
+  for (const [index, entry] of (layer.extends ?? []).entries()) {
+    const target = resolve(dirname(path), expandHomePath(entry));
+    const cycle = [...chain, path];
+
+    if (cycle.includes(target)) {
+      const description = [...cycle.slice(cycle.indexOf(target)), target].join(" -> ");
+      diagnostics.push(createFileDiagnostic(path, ["extends", index], `Circular extends: ${description}`));
+      continue;
+    }
+
+    if (!existsSync(target)) {
+      diagnostics.push(createFileDiagnostic(path, ["extends", index], `Extended config not found: ${target}`));
+      continue;
+    }
+
+    layers.push(...readConfigLayers(target, variables, diagnostics, files, anchorDir, cycle));
+  }
+
+  layers.push({ source: path, layer });
+  return layers;
+}
+
+/**
+ * Finds the `.pi/sandbox.json` files of the directories below cwd, skipping dot
+ * directories, `node_modules` and symlinks. Run once at session start: only the files
+ * found then are honoured by `resolveConfigForPath`, so that the agent cannot widen its
+ * own rules by creating one.
+ */
+export function findNestedConfigFiles(cwd: string): string[] {
+  const files: string[] = [];
+  const visit = (dir: string) => {
+    let entries;
     try {
-      projectConfig = JSON.parse(readFileSync(projectConfigPath, "utf-8"));
-    } catch (e) {
-      console.error(`Warning: Could not parse ${projectConfigPath}: ${e}`);
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith(".") || entry.name === "node_modules") continue;
+      const child = join(dir, entry.name);
+      const configPath = getProjectConfigPath(child);
+      if (existsSync(configPath)) {
+        files.push(configPath);
+      }
+      visit(child);
+    }
+  };
+  visit(cwd);
+  return files;
+}
+
+/**
+ * Adds `denyWrite` entries for every `.pi` directory below cwd (as a glob, which the
+ * runtime only supports on macOS) and for the directories of `configFiles` (as concrete
+ * paths, which it supports everywhere): the loaded configs, including parent directory
+ * configs and `extends` targets, and the nested configs. They are merged last, so no
+ * config layer can remove them, and the config watcher never picks up a file the agent wrote.
+ */
+export function protectConfigFiles(merged: MergedConfig, configFiles: string[]): MergedConfig {
+  const denyWrite = ["**/.pi/**", ...new Set(configFiles.map((file) => dirname(file)))];
+  return mergeConfigLayers(merged.config, [{ source: CONFIG_FILES_SOURCE, layer: { filesystem: { denyWrite } } }], merged.sources);
+}
+
+/**
+ * Adds `denyWrite` entries for the files the configured approver trusts: the rules file,
+ * the socket, and the arguments of the approver command that look like paths (contain a
+ * `/`), such as `./scripts/approve.sh`. Like the approver, relative paths resolve against
+ * cwd. They are merged last, so an agent allowed to write to cwd cannot rewrite its approver.
+ */
+export function protectApproverFiles(merged: MergedConfig, cwd: string): MergedConfig {
+  const { approver } = merged.config;
+  if (!approver) {
+    return merged;
+  }
+  const paths = approver.type === "command" ? approver.command.filter((arg) => arg.includes("/") && !arg.startsWith("-")) : [approver.path];
+  const denyWrite = paths.map((path) => resolve(cwd, path));
+  return mergeConfigLayers(merged.config, [{ source: APPROVER_FILES_SOURCE, layer: { filesystem: { denyWrite } } }], merged.sources);
+}
+
+/**
+ * Returns the config that applies to a file tool target: the session config for cwd
+ * with the `.pi/sandbox.json` of each directory between cwd and the target merged on top,
+ * closest last. Only files found at session start (`nestedConfigFiles`) are read, and the
+ * result keeps them write-protected. Targets outside cwd get the session config unchanged.
+ * Problems in these files are not reported here; such files are skipped like any other
+ * invalid config.
+ */
+export function resolveConfigForPath(
+  path: string,
+  cwd: string,
+  state: Pick<SandboxState, "config" | "configSources" | "configFiles" | "nestedConfigFiles">,
+): MergedConfig {
+  const base = { config: state.config, sources: state.configSources };
+  const target = resolve(cwd, expandHomePath(path));
+  const nestedDirs: string[] = [];
+  for (let dir = dirname(target); dir !== cwd && isWithin(dir, cwd); dir = dirname(dir)) {
+    nestedDirs.unshift(dir);
+  }
+
+  const variables = getConfigVariables(cwd);
+  const layers = nestedDirs
+    .filter((dir) => state.nestedConfigFiles.includes(getProjectConfigPath(dir)))
+    .flatMap((dir) => readConfigLayers(getProjectConfigPath(dir), variables, [], [], dir));
+  if (layers.length === 0) {
+    return base;
+  }
+  return protectConfigFiles(mergeConfigLayers(base.config, layers, base.sources), [...state.configFiles, ...state.nestedConfigFiles]);
+}
+
+/**
+ * Resolves the relative patterns in a layer's filesystem arrays and command rules
+ * (including profiles) against `dir`, so that they keep meaning the same paths once
+ * merged into a config whose patterns are resolved against cwd.
+ */
+function anchorLayerPaths(layer: SandboxConfigLayer, dir: string): SandboxConfigLayer {
+  const anchorPatterns = (patterns: string[]) =>
+    patterns.map((pattern) => (pattern.startsWith("!") ? `!${anchorPattern(pattern.slice(1), dir)}` : anchorPattern(pattern, dir)));
+
+  const anchorFilesystem = (filesystem: NonNullable<SandboxConfigLayer["filesystem"]>) => {
+    const result: Record<string, unknown> = { ...filesystem };
+    for (const [key, value] of Object.entries(filesystem)) {
+      if (!Array.isArray(value)) continue;
+      result[key] = anchorPatterns(value);
+    }
+    return result as SandboxConfigLayer["filesystem"];
+  };
+
+  const anchorCommandRules = (commandRules: NonNullable<SandboxConfigLayer["commandRules"]>) =>
+    Object.fromEntries(
+      Object.entries(commandRules).map(([pattern, rule]) => [
+        pattern,
+        {
+          ...rule,
+          ...(rule.allowWrite && { allowWrite: anchorPatterns(rule.allowWrite) }),
+          ...(rule.denyRead && { denyRead: anchorPatterns(rule.denyRead) }),
+        },
+      ]),
+    );
+
+  const anchorPaths = <T extends Pick<SandboxConfigLayer, "filesystem" | "commandRules">>(values: T): T => ({
+    ...values,
+    ...(values.filesystem && { filesystem: anchorFilesystem(values.filesystem) }),
+    ...(values.commandRules && { commandRules: anchorCommandRules(values.commandRules) }),
+  });
+
+  const anchored = anchorPaths(layer);
+  if (layer.profiles) {
+    anchored.profiles = Object.fromEntries(Object.entries(layer.profiles).map(([name, profile]) => [name, anchorPaths(profile)]));
+  }
+  return anchored;
+}
+
+/**
+ * Strips the extension-only keys so the rest can be handed to `SandboxManager`.
+ */
+export function toRuntimeConfig(config: SandboxConfig): SandboxRuntimeConfig {
+  const {
+    enabled: _enabled,
+    strictConfig: _strictConfig,
+    unsandboxedCommands: _unsandboxedCommands,
+    allowCompoundCommands: _allowCompoundCommands,
+    deniedCommands: _deniedCommands,
+    commandRules: _commandRules,
+    alwaysDeny: _alwaysDeny,
+    approvalTimeout: _approvalTimeout,
+    approver: _approver,
+    escalationLimits: _escalationLimits,
+    auditLog: _auditLog,
+    profiles: _profiles,
+    defaultProfile: _defaultProfile,
+    ...runtimeConfig
+  } = config;
+  return runtimeConfig;
+}
+
+/** Profile name that selects the base config even when `defaultProfile` is set. */
+export const NO_PROFILE = "none";
+
+/**
+ * Layers the requested profile (or `defaultProfile` if none was requested) on top of `merged`.
+ * Entries added by the profile are attributed to `<file> (profile <name>)`.
+ * Throws if the profile does not exist.
+ */
+export function applyProfile(merged: MergedConfig, requested: string | undefined): MergedConfig & { profile?: string } {
+  const { config, sources } = merged;
+  const name = requested ?? config.defaultProfile;
+  if (!name || name === NO_PROFILE) {
+    return merged;
+  }
+
+  const profile = config.profiles?.[name];
+  if (!profile) {
+    const available = Object.keys(config.profiles ?? {});
+    throw new Error(`Unknown sandbox profile "${name}". Available profiles: ${available.join(", ") || "(none)"}`);
+  }
+
+  const source = `${sources.profiles?.[name] ?? DEFAULTS_SOURCE} (profile ${name})`;
+  return { ...mergeConfigLayers(config, [{ source, layer: profile }], sources), profile: name };
+}
+
+/**
+ * Reads and validates a single config file and interpolates its `${...}` variables
+ * (see `ConfigVariables`). Missing files yield `{}`.
+ * Files that fail to parse, validate or interpolate are reported in `diagnostics` and
+ * contribute nothing to the merge, so a half-valid file can never partially apply.
+ * The only exception is `strictConfig`, which is kept so that a broken file can
+ * still ask for the sandbox to refuse to start.
+ */
+export function readConfigFile(path: string, variables: ConfigVariables, diagnostics: ConfigDiagnostic[]): SandboxConfigLayer {
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  let text: string;
+  try {
+    text = readFileSync(path, "utf-8");
+  } catch (e) {
+    diagnostics.push({ file: path, path: "", line: 1, column: 1, message: `Could not read file: ${e instanceof Error ? e.message : e}` });
+    return {};
+  }
+
+  const fileDiagnostics = validateConfigText(path, text);
+  if (fileDiagnostics.length === 0) {
+    const { layer, errors } = interpolateConfigLayer(parse(text, [], JSONC_OPTIONS), variables);
+    fileDiagnostics.push(...errors.map((error) => createFileDiagnostic(path, error.path, error.message, text)));
+    if (fileDiagnostics.length === 0) {
+      return layer;
     }
   }
 
-  return deepmerge.all<SandboxConfig>([DEFAULT_CONFIG, globalConfig, projectConfig]);
+  diagnostics.push(...fileDiagnostics);
+  const raw = parse(text, [], JSONC_OPTIONS);
+  return typeof raw?.strictConfig === "boolean" ? { strictConfig: raw.strictConfig } : {};
+}
+
+/**
+ * The problems `readConfigFile` would report for `text`: validation errors, or if there are
+ * none, variables that cannot be interpolated. Used to check an edit before it is saved.
+ */
+export function checkConfigText(file: string, text: string, variables: ConfigVariables): ConfigDiagnostic[] {
+  const diagnostics = validateConfigText(file, text);
+  if (diagnostics.length > 0) {
+    return diagnostics;
+  }
+  const { errors } = interpolateConfigLayer(parse(text, [], JSONC_OPTIONS), variables);
+  return errors.map((error) => createFileDiagnostic(file, error.path, error.message, text));
+}
+
+/**
+ * Parses `text` as a sandbox.json file (JSONC: comments and trailing commas are allowed)
+ * and checks it against `SandboxConfigFileSchema`.
+ * Every problem is located by JSON path and 1-based line/column in the original text.
+ */
+export function validateConfigText(file: string, text: string): ConfigDiagnostic[] {
+  const parseErrors: ParseError[] = [];
+  const root = parseTree(text, parseErrors, JSONC_OPTIONS);
+
+  // Only the first syntax error is reported: the rest are usually knock-on effects of it
+  const parseError = parseErrors[0];
+  if (parseError || !root) {
+    return [
+      {
+        file,
+        path: "",
+        ...offsetToPosition(text, parseError?.offset ?? 0),
+        message: `Invalid JSON: ${parseError ? printParseErrorCode(parseError.error) : "ValueExpected"}`,
+      },
+    ];
+  }
+
+  const result = SandboxConfigFileSchema.safeParse(getNodeValue(root));
+  if (result.success) {
+    return [];
+  }
+
+  const diagnostics: ConfigDiagnostic[] = [];
+  for (const issue of result.error.issues) {
+    if (issue.code === "unrecognized_keys") {
+      for (const key of issue.keys) {
+        const keyPath = [...issue.path, key];
+        const node = findNodeAtLocation(root, keyPath)?.parent?.children?.[0];
+        diagnostics.push({
+          file,
+          path: formatJsonPath(keyPath),
+          ...offsetToPosition(text, node?.offset ?? 0),
+          message: `Unknown key "${key}"`,
+        });
+      }
+      continue;
+    }
+
+    const node = findClosestNode(root, issue.path);
+    diagnostics.push({
+      file,
+      path: formatJsonPath(issue.path),
+      ...offsetToPosition(text, node.offset),
+      message: issue.message,
+    });
+  }
+  return diagnostics;
+}
+
+export function formatDiagnostic(diagnostic: ConfigDiagnostic): string {
+  const location = `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}`;
+  return diagnostic.path ? `${location}: ${diagnostic.path}: ${diagnostic.message}` : `${location}: ${diagnostic.message}`;
+}
+
+/**
+ * Creates a diagnostic for `jsonPath` in an already validated file, read from disk unless `text` is given.
+ */
+function createFileDiagnostic(file: string, jsonPath: JSONPath, message: string, text = readFileSync(file, "utf-8")): ConfigDiagnostic {
+  const root = parseTree(text, [], JSONC_OPTIONS);
+  const node = root ? findClosestNode(root, jsonPath) : undefined;
+  return { file, path: formatJsonPath(jsonPath), ...offsetToPosition(text, node?.offset ?? 0), message };
+}
+
+/**
+ * Finds the node for `path`, falling back to the nearest existing ancestor
+ * (e.g. a missing required key is reported at its parent object).
+ */
+function findClosestNode(root: Node, path: JSONPath): Node {
+  for (let length = path.length; length > 0; length--) {
+    const node = findNodeAtLocation(root, path.slice(0, length));
+    if (node) return node;
+  }
+  return root;
+}
+
+function formatJsonPath(path: JSONPath): string {
+  let formatted = "";
+  for (const segment of path) {
+    formatted += typeof segment === "number" ? `[${segment}]` : formatted ? `.${segment}` : segment;
+  }
+  return formatted;
+}
+
+function offsetToPosition(text: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text[i] === "\n") {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
 }
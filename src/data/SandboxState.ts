@@ -1,9 +1,40 @@
 import type { ApprovalQueue } from "../ApprovalQueue";
-import type { SandboxConfig } from "../types";
+import type { AuditRecord } from "../audit-log";
+import type { ApprovalGrant, ConfigDiagnostic, ConfigSources, EscalationRecord, SandboxConfig, SandboxRule, SandboxViolation } from "../types";
 
 export interface SandboxState {
   enabled: boolean;
   config: SandboxConfig;
+  /** Which file (or the defaults) each entry of `config` came from. */
+  configSources: ConfigSources;
+  configDiagnostics: ConfigDiagnostic[];
+  /** Config files read by the last load, including extended ones. */
+  configFiles: string[];
+  /** Profile selected with `--sandbox-profile` or `/sandbox profile`; `defaultProfile` applies when unset. */
+  requestedProfile?: string;
+  /** Profile currently layered on top of the config, if any. */
+  profile?: string;
+  /** The `.pi/sandbox.json` files below cwd found at session start, the only nested configs the file tools honour. */
+  nestedConfigFiles: string[];
+  /** Unsaved `/sandbox allow|deny` changes, applied on top of the config and profile. */
+  sessionRules: SandboxRule[];
+  /**
+   * Set while the user has turned the sandbox off with `/sandbox off`; config reloads
+   * leave it off. `until` is when it turns itself back on (epoch ms), if limited.
+   */
+  turnedOff?: { until?: number };
   approvalQueue: ApprovalQueue;
+  /** "For this session" (and "always") answers from the approval dialog, checked before prompting. */
+  approvalGrants: ApprovalGrant[];
+  /** Escalation requests counted against `escalationLimits`, oldest first. */
+  escalations: EscalationRecord[];
   sessionId: string;
+  /** Everything appended to the audit log this session (even if the file is disabled), for `/sandbox report`. */
+  auditRecords: AuditRecord[];
+  /** Violations of finished bash tool calls by tool call id, until the `tool_result` handler adds them to the result details. */
+  pendingViolations: Map<string, SandboxViolation[]>;
+  /** `allowedDomains` of the `commandRules` of sandboxed commands that are running, by run. */
+  commandRuleDomains: Map<string, string[]>;
+  /** Hosts the network proxy blocked for each sandboxed command that is running, by run (see `recordBlockedHost`). */
+  blockedHostsByRun: Map<string, string[]>;
 }
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+
+import { MAX_DURATION_MS, formatDuration, parseDuration } from "./duration";
+
+describe("parseDuration", () => {
+  it("parses seconds, minutes and hours", () => {
+    expect(parseDuration("30s")).toBe(30_000);
+    expect(parseDuration("15m")).toBe(900_000);
+    expect(parseDuration("2h")).toBe(7_200_000);
+  });
+
+  it("treats a bare number as minutes", () => {
+    expect(parseDuration("10")).toBe(600_000);
+  });
+
+  it("rejects zero and malformed input", () => {
+    expect(parseDuration("0m")).toBeUndefined();
+    expect(parseDuration("soon")).toBeUndefined();
+    expect(parseDuration("1.5h")).toBeUndefined();
+  });
+
+  it("rejects durations too long for setTimeout", () => {
+    expect(parseDuration("596h")).toBe(596 * 3_600_000);
+    expect(parseDuration("597h")).toBeUndefined();
+    expect(parseDuration("99999999999999m")).toBeUndefined();
+    expect(parseDuration(`${Math.floor(MAX_DURATION_MS / 1000)}s`)).toBe(Math.floor(MAX_DURATION_MS / 1000) * 1000);
+    expect(parseDuration(`${Math.ceil(MAX_DURATION_MS / 1000)}s`)).toBeUndefined();
+  });
+});
+
+describe("formatDuration", () => {
+  it("uses the largest unit that fits evenly", () => {
+    expect(formatDuration(7_200_000)).toBe("2h");
+    expect(formatDuration(5_400_000)).toBe("90m");
+    expect(formatDuration(45_000)).toBe("45s");
+  });
+});
@@ -0,0 +1,25 @@
+const UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000 };
+
+/** The longest duration `setTimeout` can wait for (about 24.8 days); longer ones fire at once. */
+export const MAX_DURATION_MS = 2 ** 31 - 1;
+
+/**
+ * Parses durations like `30s`, `15m` or `2h`; a bare number is minutes.
+ * Returns `undefined` for anything else, including zero and durations over `MAX_DURATION_MS`.
+ */
+export function parseDuration(text: string): number | undefined {
+  const match = /^(\d+)([smh])?$/.exec(text.trim());
+  if (!match) return undefined;
+  const ms = Number(match[1]) * UNITS[match[2] ?? "m"];
+  return ms > 0 && ms <= MAX_DURATION_MS ? ms : undefined;
+}
+
+/**
+ * Formats milliseconds with the largest unit that divides them evenly, e.g. `90m` or `2h`.
+ */
+export function formatDuration(ms: number): string {
+  for (const unit of ["h", "m"]) {
+    if (ms % UNITS[unit] === 0) return `${ms / UNITS[unit]}${unit}`;
+  }
+  return `${Math.round(ms / UNITS.s)}s`;
+}
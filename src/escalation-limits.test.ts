@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+
+import { consumeEscalationBudget, formatEscalationBudgets, getEscalationBudget, getEscalationLimit } from "./escalation-limits";
+import type { EscalationRecord, SandboxConfig } from "./types";
+
+const config: SandboxConfig = {
+  network: { allowedDomains: [], deniedDomains: [] },
+  filesystem: { denyRead: [], allowWrite: [], denyWrite: [] },
+  escalationLimits: { perSession: 3, perMinute: 2, read: { perSession: 10 }, edit: { perMinute: 0 } },
+};
+
+describe("getEscalationLimit", () => {
+  it("lets a tool's own limits override the top-level ones", () => {
+    expect(getEscalationLimit(config, "bash")).toEqual({ perSession: 3, perMinute: 2 });
+    expect(getEscalationLimit(config, "read")).toEqual({ perSession: 10, perMinute: 2 });
+    expect(getEscalationLimit({ ...config, escalationLimits: undefined }, "bash")).toEqual({});
+  });
+});
+
+describe("consumeEscalationBudget", () => {
+  it("enforces the per-minute limit over a sliding window", () => {
+    const state = { config, escalations: [] as EscalationRecord[] };
+
+    consumeEscalationBudget("bash", state, 0);
+    consumeEscalationBudget("bash", state, 1_000);
+    expect(() => consumeEscalationBudget("bash", state, 2_000)).toThrow("at most 2 bash escalation requests per minute");
+    consumeEscalationBudget("bash", state, 60_001);
+    expect(getEscalationBudget("bash", state, 60_001)).toEqual({ session: 0, minute: 0 });
+  });
+
+  it("enforces the per-session limit", () => {
+    const state = { config, escalations: [] as EscalationRecord[] };
+
+    for (const time of [0, 60_000, 120_000]) {
+      consumeEscalationBudget("bash", state, time);
+    }
+    expect(() => consumeEscalationBudget("bash", state, 600_000)).toThrow(
+      "at most 3 bash escalation requests per session. Stop requesting bypassSandbox",
+    );
+    // Limits are per tool
+    consumeEscalationBudget("write", state, 600_000);
+  });
+
+  it("denies every request when a limit is 0", () => {
+    expect(() => consumeEscalationBudget("edit", { config, escalations: [] }, 0)).toThrow("per minute");
+  });
+});
+
+describe("formatEscalationBudgets", () => {
+  it("lists the remaining budget of each limited tool", () => {
+    const escalations: EscalationRecord[] = [{ tool: "bash", time: 0 }];
+
+    expect(formatEscalationBudgets({ config, escalations }, 1_000)).toEqual([
+      "bash: 2 of 3 left this session, 1 of 2 left this minute",
+      "read: 10 of 10 left this session, 2 of 2 left this minute",
+      "write: 3 of 3 left this session, 2 of 2 left this minute",
+      "edit: 3 of 3 left this session, 0 of 0 left this minute",
+    ]);
+    expect(formatEscalationBudgets({ config: { ...config, escalationLimits: undefined }, escalations })).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+import type { SandboxState } from "./data/SandboxState";
+import type { EscalationLimit, EscalationTool, SandboxConfig } from "./types";
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Requests left for a tool, per limit. A limit that is not configured is `undefined`.
+ */
+export interface EscalationBudget {
+  session?: number;
+  minute?: number;
+}
+
+/**
+ * The limits for one tool: its own entry in `escalationLimits`, falling back to the top-level limits.
+ */
+export function getEscalationLimit(config: SandboxConfig, tool: EscalationTool): EscalationLimit {
+  const { bash: _bash, read: _read, write: _write, edit: _edit, ...defaults } = config.escalationLimits ?? {};
+  return { ...defaults, ...config.escalationLimits?.[tool] };
+}
+
+export function getEscalationBudget(tool: EscalationTool, state: Pick<SandboxState, "config" | "escalations">, now = Date.now()): EscalationBudget {
+  const limit = getEscalationLimit(state.config, tool);
+  const requests = state.escalations.filter((record) => record.tool === tool);
+  const lastMinute = requests.filter((record) => record.time > now - MINUTE_MS);
+
+  return {
+    session: limit.perSession === undefined ? undefined : Math.max(0, limit.perSession - requests.length),
+    minute: limit.perMinute === undefined ? undefined : Math.max(0, limit.perMinute - lastMinute.length),
+  };
+}
+
+/**
+ * Counts an escalation request against the tool's limits, or throws once a limit is
+ * reached. The error is meant for the agent and tells it to stop escalating.
+ */
+export function consumeEscalationBudget(tool: EscalationTool, state: Pick<SandboxState, "config" | "escalations">, now = Date.now()) {
+  const budget = getEscalationBudget(tool, state, now);
+  const limit = getEscalationLimit(state.config, tool);
+
+  if (budget.session === 0) {
+    throw new Error(
+      `Escalation limit reached: at most ${limit.perSession} ${tool} escalation requests per session. Stop requesting bypassSandbox; continue within the sandbox or ask the user to do it.`,
+    );
+  }
+  if (budget.minute === 0) {
+    throw new Error(
+      `Escalation limit reached: at most ${limit.perMinute} ${tool} escalation requests per minute. Stop requesting bypassSandbox; continue within the sandbox or ask the user to do it.`,
+    );
+  }
+
+  state.escalations = [...state.escalations, { tool, time: now }];
+}
+
+/**
+ * Describes the remaining budget of each tool that has limits, e.g. `bash: 3 of 5 left this session`.
+ */
+export function formatEscalationBudgets(state: Pick<SandboxState, "config" | "escalations">, now = Date.now()): string[] {
+  const tools: EscalationTool[] = ["bash", "read", "write", "edit"];
+  return tools.flatMap((tool) => {
+    const limit = getEscalationLimit(state.config, tool);
+    const budget = getEscalationBudget(tool, state, now);
+    const parts = [
+      ...(limit.perSession === undefined ? [] : [`${budget.session} of ${limit.perSession} left this session`]),
+      ...(limit.perMinute === undefined ? [] : [`${budget.minute} of ${limit.perMinute} left this minute`]),
+    ];
+    return parts.length > 0 ? [`${tool}: ${parts.join(", ")}`] : [];
+  });
+}
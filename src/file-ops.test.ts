@@ -1,7 +1,7 @@
 import { homedir } from "node:os";
 import { describe, expect, it } from "vitest";
 
-import { expandHomePath, isReadAllowed, isWriteAllowed, pathMatchesPattern } from "./file-ops";
+import { expandHomePath, explainRead, explainWrite, isReadAllowed, isWriteAllowed, pathMatchesPattern } from "./file-ops";
 import type { SandboxConfig } from "./types";
 
 describe("expandHomePath", () => {
@@ -297,3 +297,42 @@ describe("isWriteAllowed", () => {
     });
   });
 });
+
+describe("explainRead", () => {
+  const cwd = "/projects/myapp";
+  const config = { filesystem: { denyRead: ["~/.ssh", "*.pem"] } } as SandboxConfig;
+
+  it("returns the denyRead pattern that blocks the path", () => {
+    expect(explainRead("certs/server.pem", cwd, config)).toEqual({ allowed: false, rule: { key: "filesystem.denyRead", pattern: "*.pem" } });
+  });
+
+  it("returns no rule when the path is allowed", () => {
+    expect(explainRead("src/index.ts", cwd, config)).toEqual({ allowed: true });
+  });
+
+  it("returns the allowRead pattern that re-allows a denied path", () => {
+    const withAllowRead = { filesystem: { denyRead: ["~/.ssh"], allowRead: ["~/.ssh/config"] } } as SandboxConfig;
+    expect(explainRead("~/.ssh/config", cwd, withAllowRead)).toEqual({
+      allowed: true,
+      rule: { key: "filesystem.allowRead", pattern: "~/.ssh/config" },
+    });
+    expect(explainRead("~/.ssh/id_rsa", cwd, withAllowRead)).toEqual({ allowed: false, rule: { key: "filesystem.denyRead", pattern: "~/.ssh" } });
+  });
+});
+
+describe("explainWrite", () => {
+  const cwd = "/projects/myapp";
+  const config = { filesystem: { allowWrite: [".", "/tmp"], denyWrite: [".env"] } } as SandboxConfig;
+
+  it("returns the denyWrite pattern that blocks the path", () => {
+    expect(explainWrite(".env", cwd, config)).toEqual({ allowed: false, rule: { key: "filesystem.denyWrite", pattern: ".env" } });
+  });
+
+  it("returns the allowWrite pattern that permits the path", () => {
+    expect(explainWrite("/tmp/out.txt", cwd, config)).toEqual({ allowed: true, rule: { key: "filesystem.allowWrite", pattern: "/tmp" } });
+  });
+
+  it("returns no rule when the path is outside allowWrite", () => {
+    expect(explainWrite("/etc/hosts", cwd, config)).toEqual({ allowed: false });
+  });
+});
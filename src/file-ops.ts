@@ -2,7 +2,7 @@ import { homedir } from "node:os";
 import { isAbsolute, resolve } from "node:path";
 import picomatch from "picomatch";
 
-import type { SandboxConfig } from "./types";
+import type { RuleDecision, SandboxConfig } from "./types";
 
 export function expandHomePath(path: string): string {
   if (path.startsWith("~/")) {
@@ -20,14 +20,26 @@ export function expandHomePath(path: string): string {
  * Checks if reading from a path is allowed by sandbox config.
  */
 export function isReadAllowed(path: string, cwd: string, config: SandboxConfig): boolean {
-  const absolutePath = resolvePath(path, cwd);
-  const denyRead = config.filesystem?.denyRead;
+  return explainRead(path, cwd, config).allowed;
+}
 
-  if (!denyRead || denyRead.length === 0) {
-    return true;
+/**
+ * Like `isReadAllowed`, but also returns the pattern that decided: the `denyRead` pattern
+ * that blocked the path, or the `allowRead` pattern that re-allowed it.
+ */
+export function explainRead(path: string, cwd: string, config: SandboxConfig): RuleDecision {
+  const absolutePath = resolvePath(path, cwd);
+  const denied = config.filesystem?.denyRead?.find((pattern) => pathMatchesPattern(absolutePath, pattern, cwd));
+  if (denied === undefined) {
+    return { allowed: true };
   }
 
-  return !denyRead.some((pattern) => pathMatchesPattern(absolutePath, pattern, cwd));
+  // Like the sandbox runtime, allowRead re-allows paths within denied regions
+  const allowed = config.filesystem?.allowRead?.find((pattern) => pathMatchesPattern(absolutePath, pattern, cwd));
+  if (allowed !== undefined) {
+    return { allowed: true, rule: { key: "filesystem.allowRead", pattern: allowed } };
+  }
+  return { allowed: false, rule: { key: "filesystem.denyRead", pattern: denied } };
 }
 
 /**
@@ -35,39 +47,54 @@ export function isReadAllowed(path: string, cwd: string, config: SandboxConfig):
  * Path must match at least one allowWrite pattern (if defined) and must not match any denyWrite pattern.
  */
 export function isWriteAllowed(path: string, cwd: string, config: SandboxConfig): boolean {
+  return explainWrite(path, cwd, config).allowed;
+}
+
+/**
+ * Like `isWriteAllowed`, but also returns the pattern that decided: the matching
+ * `denyWrite` pattern, or the `allowWrite` pattern that permitted the path.
+ */
+export function explainWrite(path: string, cwd: string, config: SandboxConfig): RuleDecision {
   const absolutePath = resolvePath(path, cwd);
   const allowWrite = config.filesystem?.allowWrite;
-  const denyWrite = config.filesystem?.denyWrite;
 
   // Check denyWrite first - if path matches any deny pattern, reject
-  if (denyWrite && denyWrite.length > 0) {
-    if (denyWrite.some((pattern) => pathMatchesPattern(absolutePath, pattern, cwd))) {
-      return false;
-    }
+  const denied = config.filesystem?.denyWrite?.find((pattern) => pathMatchesPattern(absolutePath, pattern, cwd));
+  if (denied !== undefined) {
+    return { allowed: false, rule: { key: "filesystem.denyWrite", pattern: denied } };
   }
 
   // Check allowWrite - if defined and non-empty, path must match at least one pattern
   if (allowWrite && allowWrite.length > 0) {
-    return allowWrite.some((pattern) => pathMatchesPattern(absolutePath, pattern, cwd));
+    const allowed = allowWrite.find((pattern) => pathMatchesPattern(absolutePath, pattern, cwd));
+    return allowed !== undefined ? { allowed: true, rule: { key: "filesystem.allowWrite", pattern: allowed } } : { allowed: false };
   }
 
   // No allowWrite restrictions defined, allow by default
-  return true;
+  return { allowed: true };
 }
 
-export function pathMatchesPattern(path: string, pattern: string, cwd: string): boolean {
-  // Expand ~ in pattern
-  pattern = expandHomePath(pattern);
-
-  // Resolve relative patterns (., ./, relative paths) against cwd
+/**
+ * Resolves relative patterns (`.`, `./foo`, `src/foo`) against `dir`.
+ * Absolute, `~` and basename patterns (no `/`, e.g. `*.pem`) are returned as-is.
+ */
+export function anchorPattern(pattern: string, dir: string): string {
   if (pattern === ".") {
-    pattern = cwd;
-  } else if (pattern.startsWith("./")) {
-    pattern = cwd + pattern.slice(1);
-  } else if (!pattern.startsWith("/") && pattern.includes("/")) {
+    return dir;
+  }
+  if (pattern.startsWith("./")) {
+    return dir + pattern.slice(1);
+  }
+  if (!pattern.startsWith("/") && !pattern.startsWith("~/") && pattern.includes("/")) {
     // Relative path with directory component (e.g., "src/foo")
-    pattern = cwd + "/" + pattern;
+    return dir + "/" + pattern;
   }
+  return pattern;
+}
+
+export function pathMatchesPattern(path: string, pattern: string, cwd: string): boolean {
+  // Expand ~ in pattern, then resolve relative patterns (., ./, relative paths) against cwd
+  pattern = anchorPattern(expandHomePath(pattern), cwd);
 
   // matchBase: patterns without / match against basename (e.g., *.pem matches /foo/bar.pem)
   // Check before adding {,/**} suffix which introduces /
@@ -81,7 +108,10 @@ export function pathMatchesPattern(path: string, pattern: string, cwd: string):
   return picomatch.isMatch(path, pattern, { matchBase, dot: true });
 }
 
-function resolvePath(path: string, cwd: string): string {
+/**
+ * Expands `~` and resolves `path` against `cwd`.
+ */
+export function resolvePath(path: string, cwd: string): string {
   path = expandHomePath(path);
 
   if (!isAbsolute(path)) {
@@ -8,8 +8,43 @@
  *
  * Config files (merged, project takes precedence):
  * - ~/.pi/agent/sandbox.json (global)
+ * - <dir>/.pi/sandbox.json for each directory from the git root down to cwd
  * - <cwd>/.pi/sandbox.json (project-local)
  *
+ * Each of them may be `sandbox.jsonc` instead, which takes precedence. Both
+ * are parsed as JSONC, so comments and trailing commas are allowed.
+ *
+ * The file tools also merge the configs of directories between cwd and the
+ * target path, so the closest config applies to each file.
+ *
+ * Arrays extend the inherited ones; `"!entry"` removes an inherited entry,
+ * `"replace": ["filesystem.denyRead"]` starts a key from scratch and
+ * `"ignoreDefaults": true` drops `DEFAULT_CONFIG` entirely.
+ *
+ * `"extends": ["../team/sandbox.json"]` merges other files (recursively) before
+ * the file's own keys; relative paths resolve against the extending file.
+ *
+ * Named `profiles` are layered on top of the merged config. The active one comes
+ * from `--sandbox-profile`, `/sandbox profile <name>` or `defaultProfile`.
+ *
+ * Both files are validated against `SandboxConfigFileSchema`. Problems are
+ * reported with file, JSON path and line/column; an invalid file is ignored.
+ * Set `"strictConfig": true` to make pi exit instead.
+ *
+ * Escalations are decided by session answers, `alwaysDeny`, the optional
+ * `approver` (rules file, command or Unix socket, for runs without a UI) and
+ * finally the approval dialog.
+ *
+ * Path checks, auto-approved and sandboxed commands, escalations and bash exit
+ * codes are appended to a JSONL audit log per session, see `auditLog`. When the
+ * session ends (or on `/sandbox report`), they are summarized with suggested rules.
+ *
+ * `/sandbox why <path|domain|command>` explains which rule (and which file)
+ * decides whether a path, domain or command is allowed.
+ *
+ * Both files are watched; edits are applied to the running session and the
+ * agent is sent the updated rules.
+ *
  * Example .pi/sandbox.json:
  * ```json
  * {
@@ -30,7 +65,14 @@
  * Usage:
  * - `pi -e ./sandbox` - sandbox enabled with default/config settings
  * - `pi -e ./sandbox --no-sandbox` - disable sandboxing
+ * - `pi -e ./sandbox --sandbox-profile offline` - use the `offline` profile
  * - `/sandbox` - show current sandbox configuration
+ * - `/sandbox allow|deny domain|read|write|command <value> [--save project|global]` - change rules live
+ * - `/sandbox on|off [duration]|status` - turn the sandbox off (optionally for a while) and back on
+ * - `/sandbox init` - propose a project config for the detected package managers
+ * - `/sandbox profile [name]` - list profiles or switch to another one
+ * - `/sandbox report` - summarize what was blocked and approved, with suggested rules
+ * - `/sandbox why <path|domain|command>` - explain which rule applies
  *
  * Setup:
  * 1. Copy sandbox/ directory to ~/.pi/agent/extensions/
@@ -39,38 +81,39 @@
  * Linux also requires: bubblewrap, socat, ripgrep
  */
 import { SandboxManager } from "@anthropic-ai/sandbox-runtime";
-import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { dirname, join } from "node:path";
 
 import { ApprovalQueue } from "./ApprovalQueue";
+import { appendAuditRecord, pruneAuditLogs, writeSessionReport } from "./audit-log";
+import { isAllowedForRunningCommand } from "./command-rules";
 import { createSandboxCommand } from "./commands/sandbox";
-import { DEFAULT_CONFIG, loadConfig } from "./config";
+import {
+  CONFIG_FILE_NAMES,
+  DEFAULT_CONFIG,
+  SESSION_SOURCE,
+  applyProfile,
+  findNestedConfigFiles,
+  formatDiagnostic,
+  getConfigPaths,
+  loadConfig,
+  protectApproverFiles,
+  protectConfigFiles,
+  toRuntimeConfig,
+} from "./config";
+import { mergeConfigLayers } from "./config-merge";
+import { watchConfigFiles } from "./config-watcher";
 import type { SandboxState } from "./data/SandboxState";
-import { expandHomePath } from "./file-ops";
+import { formatDuration } from "./duration";
+import { buildSandboxPrompt } from "./prompt";
+import { buildSessionReport } from "./report";
+import { createRuleLayer } from "./rules";
 import { createSandboxedBashOps } from "./sandbox-ops";
 import { createSandboxedBashTool } from "./tools/bash";
 import { createSandboxedEditTool } from "./tools/edit";
 import { createSandboxedReadTool } from "./tools/read";
 import { createSandboxedWriteTool } from "./tools/write";
-
-function formatDisplayPath(path: string, cwd: string): string {
-  const originalPath = path;
-  path = expandHomePath(path);
-
-  if (path === ".") {
-    return `\`${cwd}\``;
-  }
-
-  if (path.startsWith("./")) {
-    return `\`${cwd + path.slice(1)}\``;
-  }
-
-  if (!path.startsWith("/") && path.includes("/")) {
-    return `\`${cwd}/${path}\``;
-  }
-
-  const isBasenameMatch = !originalPath.startsWith("/") && !originalPath.includes("/") && originalPath !== "~";
-  return isBasenameMatch ? `\`${path}\` (basename match)` : `\`${path}\``;
-}
+import { recordBlockedHost } from "./violations";
 
 export default function (pi: ExtensionAPI) {
   pi.registerFlag("no-sandbox", {
@@ -79,13 +122,29 @@ export default function (pi: ExtensionAPI) {
     default: false,
   });
 
+  pi.registerFlag("sandbox-profile", {
+    description: "Sandbox profile from sandbox.json to use for this session",
+    type: "string",
+  });
+
   const cwd = process.cwd();
 
   const state: SandboxState = {
     enabled: false,
     config: DEFAULT_CONFIG,
+    configSources: {},
+    configDiagnostics: [],
+    configFiles: [],
+    nestedConfigFiles: [],
+    sessionRules: [],
+    approvalGrants: [],
+    escalations: [],
     approvalQueue: new ApprovalQueue(),
     sessionId: "",
+    auditRecords: [],
+    pendingViolations: new Map(),
+    commandRuleDomains: new Map(),
+    blockedHostsByRun: new Map(),
   };
 
   // Register tools
@@ -95,32 +154,106 @@ export default function (pi: ExtensionAPI) {
   pi.registerTool(createSandboxedWriteTool(cwd, state));
 
   // Register commands
-  pi.registerCommand(
-    "sandbox",
-    createSandboxCommand(() => state.enabled),
-  );
+  pi.registerCommand("sandbox", createSandboxCommand(state, { reloadConfig, turnOff, turnOn }));
 
   // Event handlers
+  // Structured violations for the TUI and other extensions, next to the text list in the output
+  pi.on("tool_result", (event) => {
+    const violations = state.pendingViolations.get(event.toolCallId);
+    if (!violations) return;
+    state.pendingViolations.delete(event.toolCallId);
+    return { details: { ...(event.details as object | undefined), sandboxViolations: violations } };
+  });
+
   pi.on("user_bash", () => {
     if (!state.enabled) return;
     return { operations: createSandboxedBashOps(state) };
   });
 
-  pi.on("session_start", async (_event, ctx) => {
-    state.sessionId = ctx.sessionManager.getSessionId();
-    const noSandbox = pi.getFlag("no-sandbox") as boolean;
+  let stopWatchingConfig: (() => void) | undefined;
+  let turnOnHandle: NodeJS.Timeout | undefined;
+  let unsubscribeApprovals: (() => void) | undefined;
 
-    if (noSandbox) {
-      state.enabled = false;
-      ctx.ui.notify("Sandbox disabled via --no-sandbox", "warning");
+  function updateStatus(ctx: ExtensionContext) {
+    if (state.turnedOff) {
+      const until = state.turnedOff.until;
+      const time = until ? ` until ${new Date(until).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}` : "";
+      ctx.ui.setStatus("sandbox", ctx.ui.theme.fg("warning", `🔓 Sandbox off${time}`));
+      return;
+    }
+    if (!state.enabled) {
+      ctx.ui.setStatus("sandbox", undefined);
       return;
     }
 
-    const config = loadConfig(ctx.cwd);
-    state.config = config;
+    const networkCount = state.config.network?.allowedDomains?.length ?? 0;
+    const writeCount = state.config.filesystem?.allowWrite?.length ?? 0;
+    const label = state.profile ? `Sandbox (${state.profile})` : "Sandbox";
+    const pending = state.approvalQueue.pendingCount;
+    const approvals = pending > 0 ? ` · ${pending} approval${pending === 1 ? "" : "s"} pending` : "";
+    ctx.ui.setStatus("sandbox", ctx.ui.theme.fg("accent", `🔒 ${label}: ${networkCount} domains, ${writeCount} write paths${approvals}`));
+  }
 
-    if (!config.enabled) {
-      state.enabled = false;
+  /**
+   * Loads the config files and brings `SandboxManager` in line with them.
+   * Runs at session start and again whenever a watched config file changes;
+   * on reload an invalid strict config keeps the previous rules instead of exiting.
+   */
+  async function applyConfig(ctx: ExtensionContext, isReload: boolean) {
+    const loaded = loadConfig(ctx.cwd);
+    const diagnostics = loaded.diagnostics.map(formatDiagnostic);
+    state.configDiagnostics = loaded.diagnostics;
+    state.configFiles = loaded.files;
+
+    let merged: ReturnType<typeof applyProfile> = loaded;
+    try {
+      merged = applyProfile(loaded, state.requestedProfile);
+    } catch (err) {
+      diagnostics.push(err instanceof Error ? err.message : String(err));
+    }
+    const { profile } = merged;
+    const sessionLayers = state.sessionRules.map((rule) => ({ source: SESSION_SOURCE, layer: createRuleLayer(rule) }));
+    const { config, sources } = protectApproverFiles(
+      protectConfigFiles(mergeConfigLayers(merged.config, sessionLayers, merged.sources), [...loaded.files, ...state.nestedConfigFiles]),
+      ctx.cwd,
+    );
+
+    let keepPrevious = false;
+    if (diagnostics.length > 0) {
+      const message = ["Sandbox config problems:", ...diagnostics].join("\n");
+      if (config.strictConfig) {
+        if (isReload) {
+          ctx.ui.notify(`${message}\n\nstrictConfig is set, keeping the previous sandbox config.`, "error");
+          // A running (or turned off) sandbox stays as it is; one being turned back on uses the previous rules
+          if (state.enabled || state.turnedOff) return;
+          keepPrevious = true;
+        } else {
+          state.enabled = false;
+          ctx.ui.notify(`${message}\n\nstrictConfig is set, refusing to start with an invalid sandbox config.`, "error");
+          ctx.shutdown();
+          return;
+        }
+      } else {
+        ctx.ui.notify(message, "warning");
+      }
+    }
+
+    if (!keepPrevious) {
+      state.config = config;
+      state.configSources = sources;
+      state.profile = profile;
+    }
+
+    // Stays off across config reloads until /sandbox on (or its timer) turns it back on
+    if (state.turnedOff) {
+      await resetSandbox();
+      updateStatus(ctx);
+      return;
+    }
+
+    if (!state.config.enabled) {
+      await resetSandbox();
+      updateStatus(ctx);
       ctx.ui.notify("Sandbox disabled via config", "info");
       return;
     }
@@ -132,135 +265,174 @@ export default function (pi: ExtensionAPI) {
       return;
     }
 
-    try {
-      const configExt = config as unknown as {
-        ignoreViolations?: Record<string, string[]>;
-        enableWeakerNestedSandbox?: boolean;
-      };
+    if (state.enabled) {
+      SandboxManager.updateConfig(toRuntimeConfig(state.config));
+      updateStatus(ctx);
+      ctx.ui.notify("Sandbox config reloaded", "info");
+      return;
+    }
 
+    try {
       await SandboxManager.initialize(
-        {
-          network: config.network,
-          filesystem: config.filesystem,
-          ignoreViolations: configExt.ignoreViolations,
-          enableWeakerNestedSandbox: configExt.enableWeakerNestedSandbox,
+        toRuntimeConfig(state.config),
+        // Hosts that match no allowedDomains entry stay blocked (unless a running command's
+        // rule allows them), but are recorded for the report
+        async ({ host }) => {
+          if (isAllowedForRunningCommand(host, state)) {
+            return true;
+          }
+          appendAuditRecord(state, { event: "check", tool: "network", input: host, decision: "deny" });
+          recordBlockedHost(host, state);
+          return false;
         },
-        undefined,
         true, // enableLogMonitor - required for annotateStderrWithSandboxFailures
       );
 
       state.enabled = true;
-
-      const networkCount = config.network?.allowedDomains?.length ?? 0;
-      const writeCount = config.filesystem?.allowWrite?.length ?? 0;
-      ctx.ui.setStatus("sandbox", ctx.ui.theme.fg("accent", `🔒 Sandbox: ${networkCount} domains, ${writeCount} write paths`));
+      updateStatus(ctx);
       ctx.ui.notify("Sandbox initialized", "info");
     } catch (err) {
       state.enabled = false;
       ctx.ui.notify(`Sandbox initialization failed: ${err instanceof Error ? err.message : err}`, "error");
     }
-  });
+  }
 
-  pi.on("session_shutdown", async () => {
-    if (state.enabled) {
-      try {
-        await SandboxManager.reset();
-      } catch {
-        // Ignore cleanup errors
-      }
+  async function resetSandbox() {
+    if (!state.enabled) return;
+    state.enabled = false;
+    try {
+      await SandboxManager.reset();
+    } catch {
+      // Ignore cleanup errors
     }
-  });
+  }
 
-  pi.on("before_agent_start", async (_event, ctx) => {
-    if (!state.enabled) return;
+  /**
+   * (Re)starts watching the global, parent directory and project configs and every file they extend.
+   */
+  function watchConfig(ctx: ExtensionContext) {
+    stopWatchingConfig?.();
+    const { global, parents, project } = getConfigPaths(ctx.cwd);
+    // Watch both file names so that creating a sandbox.jsonc next to a sandbox.json is picked up
+    const candidates = [global, ...parents, project].flatMap((path) => CONFIG_FILE_NAMES.map((name) => join(dirname(path), name)));
+    const files = [...new Set([...candidates, ...state.configFiles])];
+    stopWatchingConfig = watchConfigFiles(files, () => void reloadConfig(ctx));
+  }
 
-    const { config } = state;
-    const lines: string[] = ["# Sandbox Configuration", ""];
-
-    // Filesystem restrictions
-    if (config.filesystem) {
-      lines.push("## Filesystem Restrictions");
-      lines.push("");
-      lines.push("### Allowed read");
-      lines.push("- `/` (entire filesystem readable)");
-      lines.push("");
-
-      if (config.filesystem.denyRead?.length) {
-        lines.push("### Denied read (overrides allowed read)");
-        lines.push(...config.filesystem.denyRead.map((path) => `- ${formatDisplayPath(path, ctx.cwd)}`));
-        lines.push("");
-      }
+  /**
+   * Re-applies the config after a file change and tells the agent about the new rules,
+   * so it does not keep working from the `sandbox-config` message of the last turn.
+   */
+  async function reloadConfig(ctx: ExtensionContext) {
+    if (pi.getFlag("no-sandbox")) {
+      ctx.ui.notify("Sandbox disabled via --no-sandbox", "warning");
+      return;
+    }
 
-      if (config.filesystem.allowWrite?.length) {
-        lines.push("### Allowed write");
-        lines.push(...config.filesystem.allowWrite.map((path) => `- ${formatDisplayPath(path, ctx.cwd)}`));
-        lines.push("");
-      }
+    await applyConfig(ctx, true);
+    watchConfig(ctx);
 
-      if (config.filesystem.denyWrite?.length) {
-        lines.push("### Denied write (overrides allowed write)");
-        lines.push(...config.filesystem.denyWrite.map((path) => `- ${formatDisplayPath(path, ctx.cwd)}`));
-        lines.push("");
-      }
+    pi.sendMessage({
+      customType: "sandbox-config",
+      content: state.enabled
+        ? `The sandbox configuration was reloaded and replaces any earlier one.\n\n${buildSandboxPrompt(state.config, ctx.cwd, state.profile)}`
+        : "The sandbox configuration was reloaded and the sandbox is now disabled. Commands and file operations are no longer sandboxed.",
+      display: false,
+    });
+  }
+
+  /**
+   * `/sandbox off`: tears the sandbox down until `turnOn`, which runs by itself after `durationMs`.
+   */
+  async function turnOff(ctx: ExtensionContext, durationMs?: number) {
+    clearTimeout(turnOnHandle);
+    state.turnedOff = { until: durationMs ? Date.now() + durationMs : undefined };
+    if (durationMs) {
+      turnOnHandle = setTimeout(() => {
+        void turnOn(ctx).then(() => ctx.ui.notify("Sandbox turned back on", "info"));
+      }, durationMs);
+      // Never keep the process alive just to turn the sandbox back on
+      turnOnHandle.unref();
     }
 
-    // Network restrictions
-    if (config.network) {
-      lines.push("## Network Restrictions");
-      lines.push("");
-      lines.push("### Allowed domains");
-      if (config.network.allowedDomains?.length) {
-        lines.push(...config.network.allowedDomains.map((domain) => `- ${domain}`));
-      } else {
-        lines.push("- none");
-      }
-      lines.push("");
+    await resetSandbox();
+    updateStatus(ctx);
 
-      if (config.network.deniedDomains?.length) {
-        lines.push("### Denied domains");
-        lines.push(...config.network.deniedDomains.map((domain) => `- ${domain}`));
-        lines.push("");
-      }
+    const duration = durationMs ? ` for ${formatDuration(durationMs)}` : "";
+    pi.sendMessage({
+      customType: "sandbox-config",
+      content: `The user turned the sandbox off${duration}. Commands and file operations are no longer sandboxed until it is turned back on.`,
+      display: false,
+    });
+  }
+
+  /**
+   * `/sandbox on`: re-applies the config after `turnOff` and tells the agent the rules are back.
+   */
+  async function turnOn(ctx: ExtensionContext) {
+    clearTimeout(turnOnHandle);
+    turnOnHandle = undefined;
+    if (!state.turnedOff) return;
+    state.turnedOff = undefined;
+
+    if (pi.getFlag("no-sandbox")) {
+      updateStatus(ctx);
+      ctx.ui.notify("Sandbox disabled via --no-sandbox", "warning");
+      return;
     }
 
-    // Unsandboxed commands
-    if (config.unsandboxedCommands?.length) {
-      lines.push("## Commands With Auto-escalation");
-      lines.push("The following command patterns are pre-allowed to bypass sandbox restrictions:");
-      lines.push("");
-      for (const pattern of config.unsandboxedCommands) {
-        const isPrefix = pattern.endsWith(" *");
-        if (isPrefix) {
-          const prefix = pattern.slice(0, -2);
-          lines.push(`### \`${pattern}\` (prefix match)`);
-          lines.push(`- Works: \`${prefix} \"some argument\"\``);
-          lines.push(`- Won't work: \`${prefix} | head -10\` (pipes/shell operators break the match)`);
-          lines.push(`- Won't work: \`sleep 5 && ${prefix}\` (prepended commands break the match)`);
-        } else {
-          lines.push(`### \`${pattern}\` (exact match)`);
-          lines.push(`- Works: \`${pattern}\``);
-          lines.push(`- Won't work: \`${pattern} && echo done\` (shell operators break the match)`);
-          lines.push(`- Won't work: \`cd cwd && ${pattern}\` (prepended commands break the match)`);
-        }
-        lines.push("");
-        lines.push("  IMPORTANT: If you do not adhere to the match rules, the command will fail.");
-        lines.push("  If it fails, change the command syntax and try again. Pipes/shell operators break the match.");
-        lines.push("  Do not try escalate; the reason for having a pre-approved command is to facilitate unattended operation.");
-        lines.push("");
-      }
+    await applyConfig(ctx, true);
+    if (!state.enabled) return;
+
+    pi.sendMessage({
+      customType: "sandbox-config",
+      content: `The sandbox was turned back on and replaces any earlier one.\n\n${buildSandboxPrompt(state.config, ctx.cwd, state.profile)}`,
+      display: false,
+    });
+  }
+
+  pi.on("session_start", async (_event, ctx) => {
+    state.sessionId = ctx.sessionManager.getSessionId();
+    unsubscribeApprovals?.();
+    unsubscribeApprovals = state.approvalQueue.subscribe(() => updateStatus(ctx));
+    const noSandbox = pi.getFlag("no-sandbox") as boolean;
+    state.requestedProfile = (pi.getFlag("sandbox-profile") as string | undefined) || undefined;
+
+    if (noSandbox) {
+      state.enabled = false;
+      ctx.ui.notify("Sandbox disabled via --no-sandbox", "warning");
+      return;
     }
 
-    lines.push("## Notes");
+    state.nestedConfigFiles = findNestedConfigFiles(ctx.cwd);
+    await applyConfig(ctx, false);
+    pruneAuditLogs(state.config);
+    watchConfig(ctx);
+  });
+
+  pi.on("session_shutdown", async (_event, ctx) => {
+    // pi may stop the UI right after shutdown, so the report is also saved for later
+    const report = buildSessionReport(state.auditRecords, state.config, ctx.cwd);
+    const reportPath = report ? writeSessionReport(state, report) : undefined;
+    if (report && ctx.hasUI) {
+      ctx.ui.notify(reportPath ? `${report}\n\nSaved to ${reportPath}` : report, "info");
+    }
 
-    lines.push("- File operations outside allowed paths, and networking outside allowed domains will fail with permission errors.");
-    lines.push("  You can use the `bypassSandbox: true` param to request a bypass.");
-    lines.push("  The tool will show an approval dialog before running outside the sandbox.");
-    lines.push("- Read and write paths are independent of each other.");
+    clearTimeout(turnOnHandle);
+    turnOnHandle = undefined;
+    unsubscribeApprovals?.();
+    unsubscribeApprovals = undefined;
+    stopWatchingConfig?.();
+    stopWatchingConfig = undefined;
+    await resetSandbox();
+  });
+  pi.on("before_agent_start", async (_event, ctx) => {
+    if (!state.enabled) return;
 
     return {
       message: {
         customType: "sandbox-config",
-        content: lines.join("\n"),
+        content: buildSandboxPrompt(state.config, ctx.cwd, state.profile),
         display: false,
       },
     };
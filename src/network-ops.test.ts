@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+
+import { explainDomain, matchesDomainPattern } from "./network-ops";
+import type { SandboxConfig } from "./types";
+
+describe("matchesDomainPattern", () => {
+  it("matches exact domains case-insensitively", () => {
+    expect(matchesDomainPattern("GitHub.com", "github.com")).toBe(true);
+    expect(matchesDomainPattern("api.github.com", "github.com")).toBe(false);
+  });
+
+  it("matches subdomains with a *. wildcard but not the bare domain", () => {
+    expect(matchesDomainPattern("api.github.com", "*.github.com")).toBe(true);
+    expect(matchesDomainPattern("a.b.github.com", "*.github.com")).toBe(true);
+    expect(matchesDomainPattern("github.com", "*.github.com")).toBe(false);
+    expect(matchesDomainPattern("evilgithub.com", "*.github.com")).toBe(false);
+  });
+});
+
+describe("explainDomain", () => {
+  const config = {
+    network: { allowedDomains: ["github.com", "*.github.com"], deniedDomains: ["gist.github.com"] },
+  } as SandboxConfig;
+
+  it("returns the allowedDomains pattern that permits the host", () => {
+    expect(explainDomain("api.github.com", config)).toEqual({ allowed: true, rule: { key: "network.allowedDomains", pattern: "*.github.com" } });
+  });
+
+  it("checks deniedDomains before allowedDomains", () => {
+    expect(explainDomain("gist.github.com", config)).toEqual({ allowed: false, rule: { key: "network.deniedDomains", pattern: "gist.github.com" } });
+  });
+
+  it("blocks hosts that match no rule", () => {
+    expect(explainDomain("example.com", config)).toEqual({ allowed: false });
+  });
+});
@@ -0,0 +1,33 @@
+import type { RuleDecision, SandboxConfig } from "./types";
+
+/**
+ * Mirrors the sandbox runtime's domain matching: `*.example.com` matches any
+ * subdomain (but not `example.com` itself), everything else is an exact,
+ * case-insensitive match.
+ */
+export function matchesDomainPattern(hostname: string, pattern: string): boolean {
+  const host = hostname.toLowerCase();
+  if (pattern.startsWith("*.")) {
+    return host.endsWith("." + pattern.slice(2).toLowerCase());
+  }
+  return host === pattern.toLowerCase();
+}
+
+/**
+ * Explains whether the sandbox lets commands connect to `hostname`.
+ * Like the runtime, denied domains are checked before allowed domains,
+ * and a host matching neither is blocked.
+ */
+export function explainDomain(hostname: string, config: SandboxConfig): RuleDecision {
+  const denied = config.network?.deniedDomains?.find((pattern) => matchesDomainPattern(hostname, pattern));
+  if (denied !== undefined) {
+    return { allowed: false, rule: { key: "network.deniedDomains", pattern: denied } };
+  }
+
+  const allowed = config.network?.allowedDomains?.find((pattern) => matchesDomainPattern(hostname, pattern));
+  if (allowed !== undefined) {
+    return { allowed: true, rule: { key: "network.allowedDomains", pattern: allowed } };
+  }
+
+  return { allowed: false };
+}
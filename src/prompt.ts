@@ -0,0 +1,182 @@
+import { expandHomePath } from "./file-ops";
+import { type CompiledCommandPattern, type TokenMatcher, compileCommandPattern } from "./sandbox-ops";
+import type { SandboxConfig } from "./types";
+
+function formatDisplayPath(path: string, cwd: string): string {
+  const originalPath = path;
+  path = expandHomePath(path);
+
+  if (path === ".") {
+    return `\`${cwd}\``;
+  }
+
+  if (path.startsWith("./")) {
+    return `\`${cwd + path.slice(1)}\``;
+  }
+
+  if (!path.startsWith("/") && path.includes("/")) {
+    return `\`${cwd}/${path}\``;
+  }
+
+  const isBasenameMatch = !originalPath.startsWith("/") && !originalPath.includes("/") && originalPath !== "~";
+  return isBasenameMatch ? `\`${path}\` (basename match)` : `\`${path}\``;
+}
+
+/**
+ * Describes a pattern that uses globs, regular expressions or argument constraints.
+ */
+function formatArgumentRules({ tokens, rest }: CompiledCommandPattern): string[] {
+  const describe = (token: TokenMatcher) =>
+    token.type === "literal"
+      ? `\`${token.value}\``
+      : token.type === "glob"
+        ? `any argument matching the glob \`${token.source}\``
+        : `any argument matching the regular expression \`${token.source}\``;
+  const lines = tokens.map((token, i) => `- Argument ${i + 1}: ${describe(token)}`);
+  if (rest) {
+    lines.push(rest.max === undefined ? "- Followed by any further arguments" : `- Followed by at most ${rest.max} further arguments`);
+    if (rest.forbid.length > 0) {
+      lines.push(`- Won't work with the flags ${rest.forbid.map((flag) => `\`${flag}\``).join(", ")}`);
+    }
+    if (rest.options) {
+      lines.push(`- Only works with the flags ${rest.options.map((flag) => `\`${flag}\``).join(", ") || "(none)"}`);
+    }
+  }
+  lines.push("- Won't work: pipes, shell operators or prepended commands (they break the match)");
+  return lines;
+}
+
+/**
+ * Builds the `sandbox-config` message that tells the agent what the sandbox allows.
+ */
+export function buildSandboxPrompt(config: SandboxConfig, cwd: string, profile?: string): string {
+  const lines: string[] = ["# Sandbox Configuration", ""];
+
+  if (profile) {
+    lines.push(`Active sandbox profile: \`${profile}\``);
+    lines.push("");
+  }
+
+  // Filesystem restrictions
+  if (config.filesystem) {
+    lines.push("## Filesystem Restrictions");
+    lines.push("");
+    lines.push("### Allowed read");
+    lines.push("- `/` (entire filesystem readable)");
+    lines.push("");
+
+    if (config.filesystem.denyRead?.length) {
+      lines.push("### Denied read (overrides allowed read)");
+      lines.push(...config.filesystem.denyRead.map((path) => `- ${formatDisplayPath(path, cwd)}`));
+      lines.push("");
+    }
+
+    if (config.filesystem.allowWrite?.length) {
+      lines.push("### Allowed write");
+      lines.push(...config.filesystem.allowWrite.map((path) => `- ${formatDisplayPath(path, cwd)}`));
+      lines.push("");
+    }
+
+    if (config.filesystem.denyWrite?.length) {
+      lines.push("### Denied write (overrides allowed write)");
+      lines.push(...config.filesystem.denyWrite.map((path) => `- ${formatDisplayPath(path, cwd)}`));
+      lines.push("");
+    }
+  }
+
+  // Network restrictions
+  if (config.network) {
+    lines.push("## Network Restrictions");
+    lines.push("");
+    lines.push("### Allowed domains");
+    if (config.network.allowedDomains?.length) {
+      lines.push(...config.network.allowedDomains.map((domain) => `- ${domain}`));
+    } else {
+      lines.push("- none");
+    }
+    lines.push("");
+
+    if (config.network.deniedDomains?.length) {
+      lines.push("### Denied domains");
+      lines.push(...config.network.deniedDomains.map((domain) => `- ${domain}`));
+      lines.push("");
+    }
+  }
+
+  // Unsandboxed commands
+  if (config.unsandboxedCommands?.length) {
+    lines.push("## Commands With Auto-escalation");
+    lines.push("The following command patterns are pre-allowed to bypass sandbox restrictions:");
+    lines.push("");
+    if (config.allowCompoundCommands) {
+      lines.push("Compound commands are pre-allowed too if every segment matches one of these patterns on its own and the segments");
+      lines.push("are joined only by `&&`, `||`, `;` or `|`, e.g. `git status && git diff --stat` if both match.");
+      lines.push("Command substitution (`$(...)`, backticks), subshells, `&` and redirects other than `2>&1` or `>/dev/null` break the match.");
+      lines.push("");
+    }
+    for (const pattern of config.unsandboxedCommands) {
+      let compiled: CompiledCommandPattern;
+      try {
+        compiled = compileCommandPattern(pattern);
+      } catch {
+        // Invalid patterns never match, and are reported as config problems
+        continue;
+      }
+      if (compiled.tokens.some((token) => token.type !== "literal") || (compiled.rest && !pattern.endsWith(" *"))) {
+        lines.push(`### \`${pattern}\` (argument rules)`);
+        lines.push(...formatArgumentRules(compiled));
+      } else if (compiled.rest) {
+        const prefix = pattern.slice(0, -2);
+        lines.push(`### \`${pattern}\` (prefix match)`);
+        lines.push(`- Works: \`${prefix} \"some argument\"\``);
+        lines.push(`- Won't work: \`${prefix} | head -10\` (pipes/shell operators break the match)`);
+        lines.push(`- Won't work: \`sleep 5 && ${prefix}\` (prepended commands break the match)`);
+      } else {
+        lines.push(`### \`${pattern}\` (exact match)`);
+        lines.push(`- Works: \`${pattern}\``);
+        lines.push(`- Won't work: \`${pattern} && echo done\` (shell operators break the match)`);
+        lines.push(`- Won't work: \`cd cwd && ${pattern}\` (prepended commands break the match)`);
+      }
+      lines.push("");
+      lines.push("  IMPORTANT: If you do not adhere to the match rules, the command will fail.");
+      lines.push("  If it fails, change the command syntax and try again. Pipes/shell operators break the match.");
+      lines.push("  Do not try escalate; the reason for having a pre-approved command is to facilitate unattended operation.");
+      lines.push("");
+    }
+  }
+
+  // Denied commands
+  if (config.deniedCommands?.length) {
+    lines.push("## Denied Commands");
+    lines.push("Commands matching these patterns are never run, not even with `bypassSandbox`. This also applies to every part of a");
+    lines.push("compound command and to commands in `$(...)` or backticks. Do not try to work around it:");
+    lines.push("");
+    lines.push(...config.deniedCommands.map((pattern) => `- \`${pattern}\``));
+    lines.push("");
+  }
+
+  // Command rules
+  const commandRules = Object.entries(config.commandRules ?? {});
+  if (commandRules.length > 0) {
+    lines.push("## Commands With Extra Sandbox Rules");
+    lines.push("The following command patterns run in the sandbox with extra entries. Pipes and other shell operators break the match:");
+    lines.push("");
+    for (const [pattern, rule] of commandRules) {
+      lines.push(`### \`${pattern}\``);
+      lines.push(...(rule.allowedDomains ?? []).map((domain) => `- Allowed domain: ${domain}`));
+      lines.push(...(rule.allowWrite ?? []).map((path) => `- Allowed write: ${formatDisplayPath(path, cwd)}`));
+      lines.push(...(rule.denyRead ?? []).map((path) => `- Denied read: ${formatDisplayPath(path, cwd)}`));
+      lines.push("");
+    }
+  }
+
+  lines.push("## Notes");
+
+  lines.push("- File operations outside allowed paths, and networking outside allowed domains will fail with permission errors.");
+  lines.push("  You can use the `bypassSandbox: true` param to request a bypass, with `bypassReason` saying why it is needed.");
+  lines.push("  The tool will show an approval dialog before running outside the sandbox.");
+  lines.push("- When the sandbox blocks a bash command, the output ends with a `<sandbox_violations>` list of what was blocked and by which rule.");
+  lines.push("- Read and write paths are independent of each other.");
+
+  return lines.join("\n");
+}
@@ -0,0 +1,73 @@
+import { getAlwaysAllowRule, getEscalationKey, getEscalationKind } from "./approval";
+import type { AuditRecord } from "./audit-log";
+import { formatRuleArguments } from "./rules";
+import type { EscalationKind, EscalationTool, SandboxConfig, SandboxViolation } from "./types";
+
+/** Approvals of the same command or path from this count on lead to a suggestion. */
+const REPEATED_ESCALATIONS = 2;
+
+/**
+ * Counts `values`, keeping the order in which each value first appeared.
+ */
+function countValues(values: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function formatCounts(title: string, counts: Map<string, number>): string[] {
+  if (counts.size === 0) {
+    return [];
+  }
+  return ["", `${title}:`, ...[...counts].map(([value, count]) => `  ${value}${count > 1 ? ` (${count}x)` : ""}`)];
+}
+
+/**
+ * Summarizes a session's audit records: blocked reads and writes (from the file tools'
+ * checks and the violations of bash runs), blocked domains, commands blocked by
+ * `deniedCommands`, approved escalations and the `unsandboxedCommands` patterns that were used, followed by
+ * `/sandbox allow` commands that would have avoided escalations approved repeatedly.
+ * Returns `undefined` if there is nothing to report.
+ */
+export function buildSessionReport(records: AuditRecord[], config: SandboxConfig, cwd: string): string | undefined {
+  const violations = records.flatMap((record) => record.violations ?? []);
+  // Blocked hosts are recorded as network checks, so only file violations are added
+  const denied = (tools: AuditRecord["tool"][], kind?: SandboxViolation["kind"]) => [
+    ...records
+      .filter((record) => record.event === "check" && record.decision === "deny" && tools.includes(record.tool))
+      .map((record) => record.input),
+    ...violations.filter((violation) => violation.kind === kind).map((violation) => violation.target),
+  ];
+  const approved = records.filter(
+    (record): record is AuditRecord & { tool: EscalationTool } =>
+      record.event === "escalation" && record.decision === "allow" && record.tool !== "network",
+  );
+  const patterns = records
+    .filter((record) => record.event === "check" && record.tool === "bash" && record.rule?.key === "unsandboxedCommands")
+    .map((record) => record.rule?.pattern ?? "");
+
+  const repeated = new Map<string, { kind: EscalationKind; key: string; count: number }>();
+  for (const record of approved) {
+    const kind = getEscalationKind(record.tool);
+    const key = getEscalationKey(kind, record.input, cwd);
+    const entry = repeated.get(`${kind}:${key}`) ?? { kind, key, count: 0 };
+    repeated.set(`${kind}:${key}`, { ...entry, count: entry.count + 1 });
+  }
+  const suggestions = [...repeated.values()].flatMap(({ kind, key, count }) => {
+    const rule = count >= REPEATED_ESCALATIONS ? getAlwaysAllowRule(kind, key, config, cwd) : undefined;
+    return rule ? [`  /sandbox allow ${formatRuleArguments(rule)} --save project  (approved ${count}x)`] : [];
+  });
+
+  const lines = [
+    ...formatCounts("Blocked Reads", countValues(denied(["read"], "read"))),
+    ...formatCounts("Blocked Writes", countValues(denied(["write", "edit"], "write"))),
+    ...formatCounts("Blocked Domains", countValues(denied(["network"]))),
+    ...formatCounts("Blocked Commands", countValues(denied(["bash"]))),
+    ...formatCounts("Approved Escalations", countValues(approved.map((record) => `${record.tool}: ${record.input} [${record.approver}]`))),
+    ...formatCounts("Pre-approved Commands Used", countValues(patterns)),
+    ...(suggestions.length > 0 ? ["", "Suggested Config Changes:", ...suggestions] : []),
+  ];
+  return lines.length > 0 ? ["Sandbox Session Report:", ...lines].join("\n") : undefined;
+}
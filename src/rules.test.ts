@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_CONFIG } from "./config";
+import { mergeConfigLayers } from "./config-merge";
+import { applyRuleToConfigText, createRuleLayer, formatRuleArguments, getRuleKeys } from "./rules";
+import type { SandboxConfig } from "./types";
+
+describe("getRuleKeys", () => {
+  it("moves domains between the allowed and denied lists", () => {
+    expect(getRuleKeys({ action: "allow", kind: "domain", value: "x.com" })).toEqual({
+      add: "network.allowedDomains",
+      remove: "network.deniedDomains",
+    });
+    expect(getRuleKeys({ action: "deny", kind: "domain", value: "x.com" })).toEqual({
+      add: "network.deniedDomains",
+      remove: "network.allowedDomains",
+    });
+  });
+
+  it("only removes commands when denying them", () => {
+    expect(getRuleKeys({ action: "deny", kind: "command", value: "npm test" })).toEqual({ add: undefined, remove: "unsandboxedCommands" });
+  });
+});
+
+describe("formatRuleArguments", () => {
+  it("quotes commands and escapes their double quotes and backslashes", () => {
+    expect(formatRuleArguments({ action: "allow", kind: "command", value: "git commit -m 'fix bug'" })).toBe(`command "git commit -m 'fix bug'"`);
+    expect(formatRuleArguments({ action: "allow", kind: "command", value: 'echo "a\\b"' })).toBe('command "echo \\"a\\\\b\\""');
+    expect(formatRuleArguments({ action: "allow", kind: "write", value: "/etc/hosts" })).toBe("write /etc/hosts");
+  });
+});
+
+describe("createRuleLayer", () => {
+  it("allows a denied domain when merged", () => {
+    const config: SandboxConfig = { ...DEFAULT_CONFIG, network: { allowedDomains: [], deniedDomains: ["x.com"] } };
+    const layer = createRuleLayer({ action: "allow", kind: "domain", value: "x.com" });
+
+    const { config: merged, sources } = mergeConfigLayers(config, [{ source: "session", layer }]);
+    expect(merged.network.allowedDomains).toEqual(["x.com"]);
+    expect(merged.network.deniedDomains).toEqual([]);
+    expect(sources["network.allowedDomains"]).toEqual({ "x.com": "session" });
+  });
+
+  it("denies a write path that the defaults allow", () => {
+    const layer = createRuleLayer({ action: "deny", kind: "write", value: "/tmp/pi" });
+
+    const { config } = mergeConfigLayers(DEFAULT_CONFIG, [{ source: "session", layer }]);
+    expect(config.filesystem.allowWrite).not.toContain("/tmp/pi");
+    expect(config.filesystem.denyWrite).toContain("/tmp/pi");
+  });
+});
+
+describe("applyRuleToConfigText", () => {
+  const effective: SandboxConfig = { ...DEFAULT_CONFIG, network: { allowedDomains: ["x.com"], deniedDomains: [] } };
+
+  it("adds the value and keeps comments", () => {
+    const text = ["{", "  // team registries", '  "network": { "allowedDomains": ["npm.example.com" /* npm */] }', "}"].join("\n");
+    const result = applyRuleToConfigText(text, { action: "allow", kind: "domain", value: "github.com" }, effective);
+
+    expect(result).toBe(text.replace("/* npm */]", '/* npm */, "github.com"]'));
+  });
+
+  it("removes the value from the opposite list of the same file", () => {
+    const text = JSON.stringify({ network: { allowedDomains: ["x.com"] } });
+    const result = JSON.parse(applyRuleToConfigText(text, { action: "deny", kind: "domain", value: "x.com" }, effective));
+
+    expect(result).toEqual({ network: { allowedDomains: [], deniedDomains: ["x.com"] } });
+  });
+
+  it("negates a value that comes from another file", () => {
+    const result = JSON.parse(applyRuleToConfigText("", { action: "deny", kind: "domain", value: "x.com" }, effective));
+
+    expect(result).toEqual({ network: { deniedDomains: ["x.com"], allowedDomains: ["!x.com"] } });
+  });
+
+  it("drops an earlier negation of the value", () => {
+    const text = JSON.stringify({ unsandboxedCommands: ["!npm test"] });
+    const result = JSON.parse(applyRuleToConfigText(text, { action: "allow", kind: "command", value: "npm test" }, DEFAULT_CONFIG));
+
+    expect(result).toEqual({ unsandboxedCommands: ["npm test"] });
+  });
+});
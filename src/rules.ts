@@ -0,0 +1,87 @@
+import type { JSONPath } from "jsonc-parser";
+
+import { addConfigEntry, removeConfigEntry } from "./config-writer";
+import type { SandboxConfig, SandboxConfigLayer, SandboxRule } from "./types";
+
+const RULE_KEYS: Record<SandboxRule["kind"], Record<SandboxRule["action"], string | undefined>> = {
+  domain: { allow: "network.allowedDomains", deny: "network.deniedDomains" },
+  read: { allow: "filesystem.allowRead", deny: "filesystem.denyRead" },
+  write: { allow: "filesystem.allowWrite", deny: "filesystem.denyWrite" },
+  // Denying a command only stops it bypassing the sandbox; `deniedCommands` is only set in config files
+  command: { allow: "unsandboxedCommands", deny: undefined },
+};
+
+/**
+ * The config arrays a rule changes: its value is added to `add` and removed from
+ * `remove` (the opposite list), so that e.g. allowing a denied domain takes effect.
+ */
+export function getRuleKeys(rule: SandboxRule): { add?: string; remove?: string } {
+  const keys = RULE_KEYS[rule.kind];
+  return rule.action === "allow" ? { add: keys.allow, remove: keys.deny } : { add: keys.deny, remove: keys.allow };
+}
+
+/**
+ * Formats a rule as the arguments of `/sandbox allow|deny`. Commands are wrapped in double
+ * quotes, with `"` and `\` escaped, so the quotes inside them survive argument parsing.
+ */
+export function formatRuleArguments(rule: SandboxRule): string {
+  const value = rule.kind === "command" ? `"${rule.value.replace(/["\\]/g, "\\$&")}"` : rule.value;
+  return `${rule.kind} ${value}`;
+}
+
+/**
+ * Turns a rule into a config layer for `mergeConfigLayers`, using a `!` entry to
+ * remove the value from the opposite list.
+ */
+export function createRuleLayer(rule: SandboxRule): SandboxConfigLayer {
+  const { add, remove } = getRuleKeys(rule);
+  const layer: Record<string, unknown> = {};
+  if (add) setArray(layer, add, [rule.value]);
+  if (remove) setArray(layer, remove, [`!${rule.value}`]);
+  return layer as SandboxConfigLayer;
+}
+
+/**
+ * Applies a rule to the text of a config file, keeping its comments. The value is added
+ * to the file's `add` list, and removed from its `remove` list; if the value only comes
+ * from another file (per `effective`), a `!` entry is added instead.
+ */
+export function applyRuleToConfigText(text: string, rule: SandboxRule, effective: SandboxConfig): string {
+  const { add, remove } = getRuleKeys(rule);
+  let result = text;
+
+  if (add) {
+    result = removeConfigEntry(result, toJsonPath(add), `!${rule.value}`);
+    result = addConfigEntry(result, toJsonPath(add), rule.value);
+  }
+  if (remove) {
+    const withoutEntry = removeConfigEntry(result, toJsonPath(remove), rule.value);
+    if (withoutEntry !== result) {
+      result = withoutEntry;
+    } else if (getArray(effective, remove)?.includes(rule.value)) {
+      result = addConfigEntry(result, toJsonPath(remove), `!${rule.value}`);
+    }
+  }
+  return result;
+}
+
+function toJsonPath(key: string): JSONPath {
+  return key.split(".");
+}
+
+function getArray(config: SandboxConfig, key: string): string[] | undefined {
+  let value: unknown = config;
+  for (const segment of toJsonPath(key)) {
+    value = (value as Record<string, unknown> | undefined)?.[segment];
+  }
+  return Array.isArray(value) ? value : undefined;
+}
+
+function setArray(target: Record<string, unknown>, key: string, value: string[]) {
+  const path = toJsonPath(key);
+  let parent = target;
+  for (const segment of path.slice(0, -1)) {
+    parent = (parent[segment] ??= {}) as Record<string, unknown>;
+  }
+  parent[path[path.length - 1]] = value;
+}
@@ -5,9 +5,17 @@ import { createHash, randomBytes } from "node:crypto";
 import { existsSync, mkdirSync, unlinkSync, writeFileSync } from "node:fs";
 import { type ParseEntry, parse } from "shell-quote";
 
+import { createCommandRuntimeConfig } from "./command-rules";
 import type { SandboxState } from "./data/SandboxState";
+import type { CommandRuleConfig, SandboxConfig, SandboxViolation } from "./types";
+import { collectSandboxViolations, formatViolations } from "./violations";
 
-export function createSandboxedBashOps(state: SandboxState): BashOperations {
+/**
+ * Bash operations that run each command in the OS sandbox, widened by the `commandRules`
+ * that match it. After a run, the sandbox violations it caused are appended to its output
+ * and passed to `onViolations`.
+ */
+export function createSandboxedBashOps(state: SandboxState, onViolations?: (violations: SandboxViolation[]) => void): BashOperations {
   return {
     async exec(command, cwd, { onData, signal, timeout }) {
       if (!existsSync(cwd)) {
@@ -25,7 +33,18 @@ export function createSandboxedBashOps(state: SandboxState): BashOperations {
       const tmpFile = `${tmpDir}/cmd-${state.sessionId}-${hash}.sh`;
       writeFileSync(tmpFile, command, { mode: 0o700 });
 
-      const wrappedCommand = await SandboxManager.wrapWithSandbox(tmpFile);
+      const commandRule = findCommandRule(command, state.config);
+      const wrappedCommand = commandRule
+        ? await SandboxManager.wrapWithSandbox(tmpFile, undefined, createCommandRuntimeConfig(state.config, commandRule.rule), signal)
+        : await SandboxManager.wrapWithSandbox(tmpFile);
+      const startedAt = Date.now();
+
+      // The network proxy asks about hosts outside allowedDomains, see isAllowedForRunningCommand
+      const runId = randomBytes(8).toString("hex");
+      if (commandRule?.rule.allowedDomains?.length) {
+        state.commandRuleDomains.set(runId, commandRule.rule.allowedDomains);
+      }
+      state.blockedHostsByRun.set(runId, []);
 
       return new Promise((resolve, reject) => {
         const child = spawn("bash", ["-c", wrappedCommand], {
@@ -50,11 +69,17 @@ export function createSandboxedBashOps(state: SandboxState): BashOperations {
           }, timeout * 1000);
         }
 
+        let stderr = "";
         child.stdout?.on("data", onData);
-        child.stderr?.on("data", onData);
+        child.stderr?.on("data", (data: Buffer) => {
+          stderr += data.toString();
+          onData(data);
+        });
 
         child.on("error", (err) => {
           if (timeoutHandle) clearTimeout(timeoutHandle);
+          state.commandRuleDomains.delete(runId);
+          state.blockedHostsByRun.delete(runId);
           reject(err);
         });
 
@@ -80,6 +105,9 @@ export function createSandboxedBashOps(state: SandboxState): BashOperations {
 
         child.on("close", (code) => {
           cleanup();
+          state.commandRuleDomains.delete(runId);
+          const blockedHosts = state.blockedHostsByRun.get(runId) ?? [];
+          state.blockedHostsByRun.delete(runId);
           if (timeoutHandle) clearTimeout(timeoutHandle);
           signal?.removeEventListener("abort", onAbort);
 
@@ -88,12 +116,13 @@ export function createSandboxedBashOps(state: SandboxState): BashOperations {
           } else if (timedOut) {
             reject(new Error(`timeout:${timeout}`));
           } else {
-            // Annotate stderr with sandbox violations if command failed
-            if (code !== 0) {
-              const stderrOutput = "";
-              const annotated = SandboxManager.annotateStderrWithSandboxFailures(command, stderrOutput);
-              onData(Buffer.from(annotated));
+            // Violations are reported by script path, since that is what was wrapped
+            const events = SandboxManager.getSandboxViolationStore().getViolationsForCommand(tmpFile);
+            const violations = collectSandboxViolations(events, stderr, blockedHosts, startedAt, state.config, cwd);
+            if (violations.length > 0) {
+              onData(Buffer.from(`\n${formatViolations(violations)}\n`));
             }
+            onViolations?.(violations);
 
             resolve({ exitCode: code });
           }
@@ -109,32 +138,254 @@ export function createSandboxedBashOps(state: SandboxState): BashOperations {
  *
  * - Exact match: "npm test" matches only "npm test"
  * - Prefix match: "npm run *" matches "npm run build", "npm run test", etc.
+ * - Globs, regular expressions and constraints on the arguments, see `compileCommandPattern`.
  * - Compound commands (with &&, ||, |, ;, redirects) are never matched for safety.
+ * - Commands with substitutions (`$(...)`, backticks, `<(...)`), even in quotes, are never
+ *   matched, since they run other commands.
  * - Safe trailing redirects (2>&1, 2>/dev/null, etc.) are stripped before matching.
  */
 export function isUnsandboxedCommand(command: string, unsandboxedCommands: string[]): boolean {
+  return findUnsandboxedPattern(command, unsandboxedCommands) !== undefined;
+}
+
+/**
+ * Returns the first unsandboxed command pattern that matches `command`, using the
+ * same rules as `isUnsandboxedCommand`, or `undefined` if none does.
+ */
+export function findUnsandboxedPattern(command: string, unsandboxedCommands: string[]): string | undefined {
+  if (hasSubstitution(command)) {
+    return undefined;
+  }
   const commandTokens = parseCommand(command);
   if ("isCompound" in commandTokens) {
-    return false;
+    return undefined;
+  }
+  return matchTokens(commandTokens, unsandboxedCommands);
+}
+
+/**
+ * A pattern that matches exactly `command` and nothing else, as saved by "Always allow" and
+ * "Always deny", or `undefined` if there is none. Arguments that the pattern language would
+ * read as globs (`*`, `*.log`) are single-quoted. Compound commands and commands with
+ * expansions (`$HOME`, backticks) have no such pattern: the shell, not the pattern, decides
+ * what they run.
+ */
+export function toLiteralCommandPattern(command: string): string | undefined {
+  if (/[$`]/.test(command)) {
+    return undefined;
+  }
+  const commandTokens = parseCommand(command);
+  if ("isCompound" in commandTokens || commandTokens.length === 0) {
+    return undefined;
   }
+  const pattern = commandTokens.map((token) => (/^[\w@%+=:,./-]+$/.test(token) ? token : `'${token.replace(/'/g, `'\\''`)}'`)).join(" ");
+  const compiled = getCompiledPattern(pattern);
+  const isLiteral = compiled !== undefined && !compiled.rest && compiled.tokens.every((matcher) => matcher.type === "literal");
+  return isLiteral && matchTokens(commandTokens, [pattern]) === pattern ? pattern : undefined;
+}
 
-  for (const pattern of unsandboxedCommands) {
-    const { tokens: patternTokens, isPrefixMatch } = parsePattern(pattern);
+/**
+ * Operators that may join the segments of a compound command that `allowCompoundCommands`
+ * lets run outside the sandbox.
+ */
+const SAFE_COMPOUND_OPERATORS = ["&&", "||", ";", "|"];
 
-    if (isPrefixMatch) {
-      // Prefix match: command must have at least as many tokens as pattern (minus the *)
-      if (patternTokens.length > commandTokens.length) continue;
-      const matches = patternTokens.every((token, i) => token === commandTokens[i]);
-      if (matches) return true;
-    } else {
-      // Exact match: command must have exactly the same tokens
-      if (patternTokens.length !== commandTokens.length) continue;
-      const matches = patternTokens.every((token, i) => token === commandTokens[i]);
-      if (matches) return true;
+/**
+ * Returns the unsandboxed command pattern matched by each segment of a compound command,
+ * if every segment matches one and the segments are only joined by `SAFE_COMPOUND_OPERATORS`
+ * (safe redirects like `2>&1` are allowed too), as used by `allowCompoundCommands`.
+ * Returns `undefined` otherwise, and for commands that are not compound.
+ *
+ * Command and process substitution, subshells, background jobs, comments and any other
+ * redirect make the whole command fail to match.
+ */
+export function findCompoundUnsandboxedPatterns(command: string, unsandboxedCommands: string[]): string[] | undefined {
+  if (hasSubstitution(command)) {
+    return undefined;
+  }
+
+  const { segments, operators } = splitCommandSegments(command);
+  if (operators.length === 0 || operators.some((operator) => !SAFE_COMPOUND_OPERATORS.includes(operator))) {
+    return undefined;
+  }
+
+  const patterns: string[] = [];
+  for (const segment of segments) {
+    if (segment.length === 0) continue;
+    const pattern = matchTokens(segment, unsandboxedCommands);
+    if (pattern === undefined) return undefined;
+    patterns.push(pattern);
+  }
+  return patterns.length > 0 ? patterns : undefined;
+}
+
+/**
+ * Whether `command` may contain a command or process substitution. shell-quote keeps these
+ * inside quoted strings, where bash still expands `$(...)` and backticks.
+ */
+function hasSubstitution(command: string): boolean {
+  return /`|\$\(|[<>]\(/.test(command);
+}
+
+/**
+ * Returns the first pattern that matches the tokens of a simple command, see `isUnsandboxedCommand`.
+ */
+function matchTokens(commandTokens: string[], patterns: string[]): string | undefined {
+  return patterns.find((pattern) => {
+    const compiled = getCompiledPattern(pattern);
+    return compiled !== undefined && matchesCompiledPattern(commandTokens, compiled);
+  });
+}
+
+/**
+ * Returns the first `deniedCommands` pattern that a segment of `command` matches, with
+ * that segment. Every segment of a compound command is checked on its own (including
+ * those in subshells and after safe redirects), and so are the commands in `$(...)` and
+ * backtick substitutions and the scripts of `sh -c` and the like. Returns `undefined` if
+ * no segment matches.
+ *
+ * Segments and patterns are compared in a normalized form (see `normalizeDeniedTokens`),
+ * so that `"rm -rf ~"` also blocks `if true; then rm -rf ~; fi`, `FOO=1 /bin/rm -fr ~`
+ * and `rm -r -f ~`.
+ */
+export function findDeniedCommand(command: string, deniedCommands: string[]): { subcommand: string; pattern: string } | undefined {
+  if (deniedCommands.length === 0) {
+    return undefined;
+  }
+
+  for (const segment of splitCommandSegments(command).segments) {
+    const tokens = normalizeDeniedTokens(segment);
+    if (tokens.length === 0) continue;
+    const pattern = deniedCommands.find((pattern) => {
+      const compiled = getCompiledPattern(pattern);
+      return compiled !== undefined && matchesCompiledPattern(tokens, normalizeDeniedPattern(compiled));
+    });
+    if (pattern !== undefined) {
+      return { subcommand: segment.join(" "), pattern };
     }
+
+    const script = getShellScript(tokens);
+    const match = script === undefined ? undefined : findDeniedCommand(script, deniedCommands);
+    if (match) {
+      return match;
+    }
+  }
+
+  // shell-quote keeps backticks and quoted `$(...)` inside strings, where bash still runs them
+  for (const [, backticks, substitution] of command.matchAll(/`([^`]*)`|\$\(([^()]*)\)/g)) {
+    const match = findDeniedCommand(backticks ?? substitution, deniedCommands);
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
+
+/** Words that may precede a command in a segment without changing which command runs. */
+const COMMAND_PREFIXES = ["if", "then", "elif", "else", "while", "until", "do", "{", "!", "time"];
+
+/** Shells whose `-c` script is checked against `deniedCommands` as well. */
+const SHELLS = ["sh", "bash", "zsh", "dash", "ksh"];
+
+/**
+ * Normalizes the tokens of a segment for `deniedCommands`: drops leading reserved words,
+ * `{`, `!`, `time` and variable assignments (`FOO=1`), reduces the command to its basename
+ * (`/bin/rm` to `rm`), and splits bundles of short flags (`-rf`) into sorted single flags,
+ * sorting runs of consecutive single flags too (`-f -r` and `-rf` both become `-f -r`).
+ */
+function normalizeDeniedTokens(tokens: string[]): string[] {
+  let start = 0;
+  while (start < tokens.length && (COMMAND_PREFIXES.includes(tokens[start]) || /^[A-Za-z_]\w*=/.test(tokens[start]))) {
+    start++;
+  }
+  const [command, ...args] = tokens.slice(start);
+  if (command === undefined) {
+    return [];
   }
+  const flags = args.flatMap((arg) => (isShortFlagBundle(arg) ? [...arg.slice(1)].map((letter) => `-${letter}`) : [arg]));
+  return [command.slice(command.lastIndexOf("/") + 1), ...sortShortFlags(flags, (arg) => arg)];
+}
+
+/**
+ * Like `normalizeDeniedTokens`, for the literal tokens of a compiled `deniedCommands` pattern.
+ */
+function normalizeDeniedPattern({ tokens, rest }: CompiledCommandPattern): CompiledCommandPattern {
+  const [command, ...args] = tokens;
+  if (command === undefined) {
+    return { tokens, rest };
+  }
+  const normalizedCommand: TokenMatcher =
+    command.type === "literal" ? { type: "literal", value: command.value.slice(command.value.lastIndexOf("/") + 1) } : command;
+  const flags = args.flatMap((matcher): TokenMatcher[] =>
+    matcher.type === "literal" && isShortFlagBundle(matcher.value)
+      ? [...matcher.value.slice(1)].map((letter) => ({ type: "literal", value: `-${letter}` }))
+      : [matcher],
+  );
+  return { tokens: [normalizedCommand, ...sortShortFlags(flags, (matcher) => (matcher.type === "literal" ? matcher.value : undefined))], rest };
+}
 
-  return false;
+function isShortFlagBundle(token: string): boolean {
+  return /^-[A-Za-z]{2,}$/.test(token);
+}
+
+/**
+ * Sorts each run of consecutive single short flags among `items` and removes duplicates
+ * from it. `getText` returns an item's literal text, or `undefined` if it has none.
+ */
+function sortShortFlags<T>(items: T[], getText: (item: T) => string | undefined): T[] {
+  const isShortFlag = (item: T) => /^-[A-Za-z]$/.test(getText(item) ?? "");
+  const result: T[] = [];
+  for (let i = 0; i < items.length; ) {
+    if (!isShortFlag(items[i])) {
+      result.push(items[i++]);
+      continue;
+    }
+    let end = i;
+    while (end < items.length && isShortFlag(items[end])) end++;
+    const run = items.slice(i, end).sort((a, b) => getText(a)!.localeCompare(getText(b)!));
+    result.push(...run.filter((item, index) => index === 0 || getText(item) !== getText(run[index - 1])));
+    i = end;
+  }
+  return result;
+}
+
+/**
+ * The script of a normalized `sh -c '...'` (or `bash -lc '...'`, etc.) segment, if it is one.
+ */
+function getShellScript([command, ...args]: string[]): string | undefined {
+  if (!SHELLS.includes(command)) {
+    return undefined;
+  }
+  const flagIndex = args.findIndex((arg) => arg === "-c");
+  return flagIndex === -1 ? undefined : args.slice(flagIndex + 1).find((arg) => !arg.startsWith("-"));
+}
+
+export interface MatchedCommandRule {
+  /** Every `commandRules` pattern that matches the command. */
+  patterns: string[];
+  /** The entries of all matching rules combined. */
+  rule: CommandRuleConfig;
+}
+
+/**
+ * Returns the `commandRules` that apply to `command`, matched like `unsandboxedCommands`
+ * (so compound commands never match). Entries of several matching rules are combined.
+ */
+export function findCommandRule(command: string, config: SandboxConfig): MatchedCommandRule | undefined {
+  const patterns = Object.keys(config.commandRules ?? {}).filter((pattern) => findUnsandboxedPattern(command, [pattern]) !== undefined);
+  if (patterns.length === 0) {
+    return undefined;
+  }
+
+  const rules = patterns.map((pattern) => config.commandRules?.[pattern] ?? {});
+  return {
+    patterns,
+    rule: {
+      allowedDomains: rules.flatMap((rule) => rule.allowedDomains ?? []),
+      allowWrite: rules.flatMap((rule) => rule.allowWrite ?? []),
+      denyRead: rules.flatMap((rule) => rule.denyRead ?? []),
+    },
+  };
 }
 
 /**
@@ -150,8 +401,31 @@ export function isUnsandboxedCommand(command: string, unsandboxedCommands: strin
  * do not produce spurious warnings.
  */
 export function findUnsandboxedCompoundMatches(command: string, unsandboxedCommands: string[]): { subcommand: string; pattern: string }[] {
-  const stripped = stripSafeTrailingRedirects(command);
-  const parsed = parse(stripped.trim());
+  const { segments, operators } = splitCommandSegments(command);
+  if (operators.length === 0) return [];
+
+  const matches: { subcommand: string; pattern: string }[] = [];
+  for (const segment of segments) {
+    if (segment.length === 0) continue;
+    const pattern = matchTokens(
+      segment,
+      unsandboxedCommands.filter((pattern) => (getCompiledPattern(pattern)?.tokens.length ?? 0) > 0),
+    );
+    if (pattern !== undefined) {
+      matches.push({ subcommand: segment.join(" "), pattern });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Splits a command into the tokens of its segments and the shell operators between them.
+ * Safe trailing redirects (2>&1, 2>/dev/null, etc.) are stripped first. Comments count
+ * as a `#` operator.
+ */
+function splitCommandSegments(command: string): { segments: string[][]; operators: string[] } {
+  const parsed = parseShell(command);
 
   // Split tokens into segments on any operator token (non-glob), and also on
   // known safe redirect sequences like `2>&1` / `>/dev/null` (shell-quote splits
@@ -160,7 +434,7 @@ export function findUnsandboxedCompoundMatches(command: string, unsandboxedComma
   // mark the command as compound -- only real shell operators (|, &&, ||, ;,
   // and non-safe redirects) do.
   const segments: string[][] = [[]];
-  let hasOperator = false;
+  const operators: string[] = [];
   for (let i = 0; i < parsed.length; ) {
     const redirLen = matchRedirectSequence(parsed, i);
     if (redirLen > 0) {
@@ -174,39 +448,13 @@ export function findUnsandboxedCompoundMatches(command: string, unsandboxedComma
     } else if ("op" in token && token.op === "glob") {
       segments[segments.length - 1].push(token.pattern);
     } else {
-      hasOperator = true;
+      operators.push("op" in token ? token.op : "#");
       segments.push([]);
     }
     i++;
   }
 
-  if (!hasOperator) return [];
-
-  const matches: { subcommand: string; pattern: string }[] = [];
-  for (const segment of segments) {
-    if (segment.length === 0) continue;
-    for (const pattern of unsandboxedCommands) {
-      const { tokens: patternTokens, isPrefixMatch } = parsePattern(pattern);
-      if (patternTokens.length === 0) continue;
-      if (isPrefixMatch) {
-        if (patternTokens.length > segment.length) continue;
-        const ok = patternTokens.every((t, i) => t === segment[i]);
-        if (ok) {
-          matches.push({ subcommand: segment.join(" "), pattern });
-          break;
-        }
-      } else {
-        if (patternTokens.length !== segment.length) continue;
-        const ok = patternTokens.every((t, i) => t === segment[i]);
-        if (ok) {
-          matches.push({ subcommand: segment.join(" "), pattern });
-          break;
-        }
-      }
-    }
-  }
-
-  return matches;
+  return { segments, operators };
 }
 
 /**
@@ -215,8 +463,7 @@ export function findUnsandboxedCompoundMatches(command: string, unsandboxedComma
  * Safe trailing redirects (2>&1, 2>/dev/null, etc.) are stripped before parsing.
  */
 function parseCommand(command: string): string[] | { isCompound: true } {
-  const stripped = stripSafeTrailingRedirects(command);
-  const parsed = parse(stripped.trim());
+  const parsed = parseShell(command);
   const tokens: string[] = [];
   for (const token of parsed) {
     if (typeof token === "string") {
@@ -230,6 +477,60 @@ function parseCommand(command: string): string[] | { isCompound: true } {
   return tokens;
 }
 
+/**
+ * Parses a command with shell-quote, after stripping safe trailing redirects. shell-quote
+ * treats newlines as whitespace, so each line is parsed on its own and the lines are joined
+ * with a `;` operator, like bash runs them.
+ */
+function parseShell(command: string): ParseEntry[] {
+  return splitLines(stripSafeTrailingRedirects(command)).flatMap((line, i) => {
+    const parsed = parse(line.trim());
+    return i === 0 ? parsed : [{ op: ";" as const }, ...parsed];
+  });
+}
+
+/**
+ * Splits a command at the newlines outside quotes, dropping blank lines. Quotes in
+ * comments are ignored, since bash ignores them too, and line continuations (a backslash
+ * before the newline) are removed.
+ */
+function splitLines(command: string): string[] {
+  const lines: string[] = [];
+  let line = "";
+  let quote: string | undefined;
+  let comment = false;
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (char === "\n" && !quote) {
+      lines.push(line);
+      line = "";
+      comment = false;
+      continue;
+    }
+    if (char === "\\" && !comment && quote !== "'") {
+      if (command[i + 1] !== "\n") {
+        line += char + (command[i + 1] ?? "");
+      }
+      i++;
+      continue;
+    }
+    if (comment) {
+      line += char;
+      continue;
+    }
+    if (quote) {
+      quote = char === quote ? undefined : quote;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === "#" && (i === 0 || /[\s;&|()<>]/.test(command[i - 1]))) {
+      comment = true;
+    }
+    line += char;
+  }
+  lines.push(line);
+  return lines.filter((line) => line.trim() !== "");
+}
+
 /**
  * Safe trailing redirects that are allowed at the end of commands.
  * These are harmless redirects that don't write to arbitrary files.
@@ -297,13 +598,185 @@ function matchRedirectSequence(tokens: ParseEntry[], start: number): number {
   return 0;
 }
 
+/** Matches one argument of a command, see `compileCommandPattern`. */
+export type TokenMatcher = { type: "literal"; value: string } | { type: "glob" | "regex"; source: string; regex: RegExp };
+
+/**
+ * A command pattern, compiled by `compileCommandPattern`. `rest` is set for prefix
+ * patterns (ending in `*`) and holds the constraints on the arguments after the prefix.
+ */
+export interface CompiledCommandPattern {
+  tokens: TokenMatcher[];
+  rest?: {
+    /** Flags that no argument may be, e.g. `--force` or `-f`. */
+    forbid: string[];
+    /** If set, the only flags the arguments may be. */
+    options?: string[];
+    /** If set, at least one of these flags must be given, in the same forms as `forbid`. */
+    has?: string[];
+    /** The most arguments `*` may match. */
+    max?: number;
+  };
+}
+
+/**
+ * Compiles an `unsandboxedCommands` pattern (also used by `alwaysDeny.commands` and
+ * `commandRules`). Each token matches one argument:
+ *
+ * - `push` - exactly that argument; quoted tokens are never globs (`'*.log'`)
+ * - `feature/*`, `v?` - a glob, where `*` matches any characters and `?` one character
+ * - `'re:(build|test)(:\w+)?'` - a regular expression that must match the whole argument
+ *   (quote it so the shell syntax in it is kept)
+ *
+ * A trailing `*` matches any further arguments, and may be followed by constraints on the
+ * arguments that are not spelled out literally:
+ *
+ * - `forbid:--force,-f` - these flags may not be given (`-f` also inside `-fu`, `--force` also
+ *   as `--force=...` or abbreviated as `--forc`)
+ * - `options:--oneline,--stat,-n` - no other flags may be given
+ * - `has:--force,-f` - one of these flags must be given, anywhere among those arguments (in
+ *   the same forms as `forbid`), e.g. to deny `git push * has:--force,-f`
+ * - `max:2` - `*` matches at most two arguments
+ *
+ * Arguments after `--` are never treated as flags. Throws if the pattern is invalid.
+ */
+export function compileCommandPattern(pattern: string): CompiledCommandPattern {
+  const compiled: CompiledCommandPattern = { tokens: [] };
+  for (const token of parse(pattern.trim())) {
+    if (compiled.rest) {
+      if (typeof token !== "string") {
+        throw new Error(`Unexpected shell syntax after "*" in command pattern "${pattern}"`);
+      }
+      addRestConstraint(compiled.rest, token, pattern);
+    } else if (typeof token === "string") {
+      compiled.tokens.push(compileStringToken(token, pattern));
+    } else if ("op" in token && token.op === "glob") {
+      if (token.pattern === "*") {
+        compiled.rest = { forbid: [] };
+      } else {
+        compiled.tokens.push({ type: "glob", source: token.pattern, regex: globToRegExp(token.pattern) });
+      }
+    } else {
+      throw new Error(`Command pattern "${pattern}" contains shell operators, which commands are never matched with`);
+    }
+  }
+  return compiled;
+}
+
+/** Marks a pattern token as a regular expression. A prefix, so paths like `/usr/local/` stay literal. */
+const REGEX_PREFIX = "re:";
+
+function compileStringToken(token: string, pattern: string): TokenMatcher {
+  if (token.startsWith(REGEX_PREFIX)) {
+    const source = token.slice(REGEX_PREFIX.length);
+    if (!source) {
+      throw new Error(`Empty regular expression in command pattern "${pattern}"`);
+    }
+    try {
+      return { type: "regex", source, regex: new RegExp(`^(?:${source})$`) };
+    } catch (err) {
+      throw new Error(`Invalid regular expression ${token} in command pattern "${pattern}": ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return { type: "literal", value: token };
+}
+
+function addRestConstraint(rest: NonNullable<CompiledCommandPattern["rest"]>, token: string, pattern: string) {
+  const [key, value = ""] = token.split(/:(.*)/s);
+  const flags = value.split(",").filter(Boolean);
+  if (key === "forbid" && flags.length > 0) {
+    rest.forbid.push(...flags);
+  } else if (key === "options") {
+    rest.options = [...(rest.options ?? []), ...flags];
+  } else if (key === "has" && flags.length > 0) {
+    rest.has = [...(rest.has ?? []), ...flags];
+  } else if (key === "max" && /^\d+$/.test(value)) {
+    rest.max = Number(value);
+  } else {
+    throw new Error(
+      `Unexpected "${token}" after "*" in command pattern "${pattern}", expected forbid:<flags>, options:<flags>, has:<flags> or max:<count>`,
+    );
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${source}$`);
+}
+
+/** Compiled patterns by pattern text; `undefined` for invalid patterns, which match nothing. */
+const compiledPatterns = new Map<string, CompiledCommandPattern | undefined>();
+
+function getCompiledPattern(pattern: string): CompiledCommandPattern | undefined {
+  if (!compiledPatterns.has(pattern)) {
+    try {
+      compiledPatterns.set(pattern, compileCommandPattern(pattern));
+    } catch {
+      // Reported by config validation
+      compiledPatterns.set(pattern, undefined);
+    }
+  }
+  return compiledPatterns.get(pattern);
+}
+
+function matchesToken(matcher: TokenMatcher, argument: string): boolean {
+  return matcher.type === "literal" ? matcher.value === argument : matcher.regex.test(argument);
+}
+
+function matchesCompiledPattern(commandTokens: string[], { tokens, rest }: CompiledCommandPattern): boolean {
+  if (rest ? commandTokens.length < tokens.length : commandTokens.length !== tokens.length) {
+    return false;
+  }
+  if (!tokens.every((matcher, i) => matchesToken(matcher, commandTokens[i]))) {
+    return false;
+  }
+  if (!rest) {
+    return true;
+  }
+  if (rest.max !== undefined && commandTokens.length - tokens.length > rest.max) {
+    return false;
+  }
+
+  // Flags among the arguments the pattern does not spell out, up to `--`
+  const endOfOptions = commandTokens.indexOf("--", 1);
+  const flags = commandTokens.filter(
+    (argument, i) =>
+      i > 0 &&
+      (endOfOptions === -1 || i < endOfOptions) &&
+      tokens[i]?.type !== "literal" &&
+      argument.startsWith("-") &&
+      argument.length > 1 &&
+      argument !== "--",
+  );
+  if (rest.has && !flags.some((flag) => isForbiddenFlag(flag, rest.has!))) {
+    return false;
+  }
+  return flags.every((flag) => !isForbiddenFlag(flag, rest.forbid) && (!rest.options || isAllowedOption(flag, rest.options)));
+}
+
 /**
- * Parses a pattern string into tokens and determines if it's a prefix match (ends with *).
+ * Whether `flag` (as given in a command) is one of `forbid` (or `has`): by name without `=value`, as
+ * an abbreviation of a forbidden long flag (`--forc`), or in a bundle of short flags (`-fu`).
  */
-function parsePattern(pattern: string): { tokens: string[]; isPrefixMatch: boolean } {
-  const parsed = parse(pattern.trim());
-  const tokens = parsed.filter((t): t is string => typeof t === "string");
-  const lastToken = parsed[parsed.length - 1];
-  const isPrefixMatch = typeof lastToken === "object" && "op" in lastToken && lastToken.op === "glob" && lastToken.pattern === "*";
-  return { tokens, isPrefixMatch };
+function isForbiddenFlag(flag: string, forbid: string[]): boolean {
+  const name = flag.split("=")[0];
+  if (name.startsWith("--")) {
+    return forbid.some((forbidden) => forbidden === name || (forbidden.startsWith("--") && forbidden.startsWith(name)));
+  }
+  return forbid.includes(name) || [...name.slice(1)].some((letter) => forbid.includes(`-${letter}`));
+}
+
+/**
+ * Whether `flag` is one of `options`: by name without `=value`, or as a bundle of short
+ * flags that are all in `options`.
+ */
+function isAllowedOption(flag: string, options: string[]): boolean {
+  const name = flag.split("=")[0];
+  if (name.startsWith("--") || options.includes(name)) {
+    return options.includes(name);
+  }
+  return [...name.slice(1)].every((letter) => options.includes(`-${letter}`));
 }
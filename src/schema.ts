@@ -0,0 +1,166 @@
+import { FilesystemConfigSchema, NetworkConfigSchema, SandboxRuntimeConfigSchema } from "@anthropic-ai/sandbox-runtime";
+import { z } from "zod";
+
+import { compileCommandPattern } from "./sandbox-ops";
+
+/**
+ * Array keys that a config file may list in `replace` to overwrite, rather than
+ * extend, the value inherited from earlier layers.
+ */
+export const REPLACEABLE_KEYS = [
+  "unsandboxedCommands",
+  "deniedCommands",
+  "alwaysDeny.commands",
+  "alwaysDeny.read",
+  "alwaysDeny.write",
+  "network.allowedDomains",
+  "network.deniedDomains",
+  "network.allowUnixSockets",
+  "network.allowMachLookup",
+  "filesystem.denyRead",
+  "filesystem.allowRead",
+  "filesystem.allowWrite",
+  "filesystem.denyWrite",
+] as const;
+
+/**
+ * Accepts a `!`-prefixed entry (which removes an inherited entry) wherever `schema` is accepted.
+ */
+function negatable<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess((value) => (typeof value === "string" && value.startsWith("!") ? value.slice(1) : value), schema);
+}
+
+/**
+ * An `unsandboxedCommands` pattern, checked with the same compiler that matches commands.
+ */
+const CommandPatternSchema = z.string().superRefine((pattern, ctx) => {
+  try {
+    compileCommandPattern(pattern);
+  } catch (err) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: err instanceof Error ? err.message : String(err) });
+  }
+});
+
+const NetworkConfigFileSchema = NetworkConfigSchema.extend({
+  allowedDomains: z.array(negatable(NetworkConfigSchema.shape.allowedDomains.element)),
+  deniedDomains: z.array(negatable(NetworkConfigSchema.shape.deniedDomains.element)),
+  allowMachLookup: z.array(negatable(NetworkConfigSchema.shape.allowMachLookup.unwrap().element)),
+});
+
+const EscalationLimitSchema = z
+  .object({
+    perSession: z.number().int().nonnegative().optional(),
+    perMinute: z.number().int().nonnegative().optional(),
+  })
+  .strict();
+
+/**
+ * Keys that can appear both at the top level of a config file and inside a profile.
+ * Every key is optional because layers are merged on top of `DEFAULT_CONFIG`.
+ * Objects are strict so that typos like `allowedDomain` are reported instead of
+ * silently disappearing into the merge.
+ */
+const SandboxConfigLayerSchema = SandboxRuntimeConfigSchema.extend({
+  network: NetworkConfigFileSchema.partial().strict().optional(),
+  filesystem: FilesystemConfigSchema.partial().strict().optional(),
+  enabled: z.boolean().optional(),
+  unsandboxedCommands: z.array(negatable(CommandPatternSchema)).optional(),
+  allowCompoundCommands: z.boolean().optional(),
+  deniedCommands: z.array(negatable(CommandPatternSchema)).optional(),
+  alwaysDeny: z
+    .object({
+      commands: z.array(negatable(CommandPatternSchema)).optional(),
+      read: z.array(z.string()).optional(),
+      write: z.array(z.string()).optional(),
+    })
+    .strict()
+    .optional(),
+  approvalTimeout: z
+    .object({
+      seconds: z.number().positive(),
+      default: z.enum(["allow", "deny"]).optional(),
+    })
+    .strict()
+    .optional(),
+  approver: z
+    .discriminatedUnion("type", [
+      z.object({ type: z.literal("rules"), path: z.string() }).strict(),
+      z.object({ type: z.literal("command"), command: z.array(z.string()).nonempty(), timeoutSeconds: z.number().positive().optional() }).strict(),
+      z.object({ type: z.literal("socket"), path: z.string(), timeoutSeconds: z.number().positive().optional() }).strict(),
+    ])
+    .optional(),
+  commandRules: z
+    .record(
+      CommandPatternSchema,
+      z
+        .object({
+          allowedDomains: z.array(negatable(NetworkConfigSchema.shape.allowedDomains.element)).optional(),
+          allowWrite: z.array(z.string()).optional(),
+          denyRead: z.array(z.string()).optional(),
+        })
+        .strict(),
+    )
+    .optional(),
+  escalationLimits: EscalationLimitSchema.extend({
+    bash: EscalationLimitSchema.optional(),
+    read: EscalationLimitSchema.optional(),
+    write: EscalationLimitSchema.optional(),
+    edit: EscalationLimitSchema.optional(),
+  })
+    .strict()
+    .optional(),
+  auditLog: z
+    .object({
+      enabled: z.boolean().optional(),
+      directory: z.string().optional(),
+      retentionDays: z.number().positive().optional(),
+    })
+    .strict()
+    .optional(),
+  replace: z.array(z.enum(REPLACEABLE_KEYS)).optional(),
+}).strict();
+
+/**
+ * Schema for a single sandbox.json file (global or project).
+ */
+export const SandboxConfigFileSchema = SandboxConfigLayerSchema.extend({
+  extends: z.array(z.string()).optional(),
+  strictConfig: z.boolean().optional(),
+  ignoreDefaults: z.boolean().optional(),
+  profiles: z.record(z.string(), SandboxConfigLayerSchema).optional(),
+  defaultProfile: z.string().optional(),
+}).strict();
+
+export type SandboxConfigFile = z.infer<typeof SandboxConfigFileSchema>;
+
+function approvalRules(pattern: z.ZodType<string>) {
+  return z
+    .object({
+      allow: z.array(pattern).optional(),
+      deny: z.array(pattern).optional(),
+    })
+    .strict();
+}
+
+/**
+ * Schema for the rules file of a `rules` approver: allow and deny patterns per tool.
+ * Commands use the `unsandboxedCommands` pattern syntax, paths the filesystem pattern syntax.
+ */
+export const ApprovalRulesFileSchema = z
+  .object({
+    bash: approvalRules(CommandPatternSchema).optional(),
+    read: approvalRules(z.string()).optional(),
+    write: approvalRules(z.string()).optional(),
+    edit: approvalRules(z.string()).optional(),
+  })
+  .strict();
+
+export type ApprovalRulesFile = z.infer<typeof ApprovalRulesFileSchema>;
+
+/**
+ * Schema for the answer of a `command` or `socket` approver.
+ */
+export const ApproverResponseSchema = z.object({
+  decision: z.enum(["allow", "deny"]),
+  reason: z.string().optional(),
+});
@@ -0,0 +1,49 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { validateConfigText } from "./config";
+import { KNOWN_TOOLING, detectTooling, formatToolingConfig } from "./tooling";
+
+describe("detectTooling", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "pi-sandbox-tooling-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("finds tools by their project files", () => {
+    writeFileSync(join(dir, "package.json"), "{}");
+    writeFileSync(join(dir, "Cargo.toml"), "");
+
+    expect(detectTooling(dir).map((tool) => tool.name)).toEqual(["npm", "Cargo"]);
+  });
+
+  it("returns nothing for an empty directory", () => {
+    expect(detectTooling(dir)).toEqual([]);
+  });
+});
+
+describe("formatToolingConfig", () => {
+  const tool = (name: string) => KNOWN_TOOLING.find((tooling) => tooling.name === name)!;
+
+  it("produces a valid config with a comment per tool", () => {
+    const text = formatToolingConfig([tool("npm"), tool("Go")]);
+
+    expect(validateConfigText("sandbox.json", text)).toEqual([]);
+    expect(text).toContain("// npm");
+    expect(text).toContain('"proxy.golang.org"');
+    expect(text).toContain('"~/.npm"');
+  });
+
+  it("lists entries shared by several tools once", () => {
+    const text = formatToolingConfig([tool("npm"), tool("pnpm")]);
+
+    expect(text.match(/registry\.npmjs\.org/g)).toHaveLength(1);
+  });
+});
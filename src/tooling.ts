@@ -0,0 +1,133 @@
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+
+/**
+ * A package manager or build tool, recognised by its project files, together with
+ * the registries it downloads from and the caches it writes to.
+ */
+export interface Tooling {
+  name: string;
+  /** Any of these files in the project directory means the tool is used. */
+  files: string[];
+  allowedDomains: string[];
+  allowWrite: string[];
+}
+
+export const KNOWN_TOOLING: Tooling[] = [
+  {
+    name: "npm",
+    files: ["package.json"],
+    allowedDomains: ["registry.npmjs.org"],
+    allowWrite: ["~/.npm"],
+  },
+  {
+    name: "Yarn",
+    files: ["yarn.lock", ".yarnrc.yml"],
+    allowedDomains: ["registry.yarnpkg.com", "repo.yarnpkg.com"],
+    allowWrite: ["~/.yarn", "~/.cache/yarn", "~/Library/Caches/Yarn"],
+  },
+  {
+    name: "pnpm",
+    files: ["pnpm-lock.yaml", "pnpm-workspace.yaml"],
+    allowedDomains: ["registry.npmjs.org"],
+    allowWrite: ["~/.local/share/pnpm", "~/.cache/pnpm", "~/Library/pnpm", "~/Library/Caches/pnpm"],
+  },
+  {
+    name: "Bun",
+    files: ["bun.lock", "bun.lockb"],
+    allowedDomains: ["registry.npmjs.org"],
+    allowWrite: ["~/.bun/install/cache"],
+  },
+  {
+    name: "Cargo",
+    files: ["Cargo.toml"],
+    allowedDomains: ["crates.io", "index.crates.io", "static.crates.io"],
+    allowWrite: ["~/.cargo/registry", "~/.cargo/git"],
+  },
+  {
+    name: "Go",
+    files: ["go.mod"],
+    allowedDomains: ["proxy.golang.org", "sum.golang.org"],
+    allowWrite: ["~/go/pkg/mod", "~/.cache/go-build", "~/Library/Caches/go-build"],
+  },
+  {
+    name: "pip",
+    files: ["pyproject.toml", "requirements.txt", "setup.py", "Pipfile"],
+    allowedDomains: ["pypi.org", "files.pythonhosted.org"],
+    allowWrite: ["~/.cache/pip", "~/Library/Caches/pip"],
+  },
+  {
+    name: "uv",
+    files: ["uv.lock"],
+    allowedDomains: ["pypi.org", "files.pythonhosted.org"],
+    allowWrite: ["~/.cache/uv", "~/Library/Caches/uv"],
+  },
+  {
+    name: "Bundler",
+    files: ["Gemfile"],
+    allowedDomains: ["rubygems.org", "index.rubygems.org"],
+    allowWrite: ["~/.gem", "~/.bundle"],
+  },
+  {
+    name: "Maven",
+    files: ["pom.xml"],
+    allowedDomains: ["repo.maven.apache.org", "repo1.maven.org"],
+    allowWrite: ["~/.m2/repository"],
+  },
+  {
+    name: "Gradle",
+    files: ["build.gradle", "build.gradle.kts", "settings.gradle", "settings.gradle.kts"],
+    allowedDomains: ["services.gradle.org", "plugins.gradle.org", "repo.maven.apache.org"],
+    allowWrite: ["~/.gradle"],
+  },
+  {
+    name: "Composer",
+    files: ["composer.json"],
+    allowedDomains: ["repo.packagist.org", "packagist.org"],
+    allowWrite: ["~/.composer", "~/.cache/composer"],
+  },
+];
+
+/**
+ * Returns the known tools whose project files exist directly in `dir`.
+ */
+export function detectTooling(dir: string, tooling: Tooling[] = KNOWN_TOOLING): Tooling[] {
+  return tooling.filter((tool) => tool.files.some((file) => existsSync(join(dir, file))));
+}
+
+/**
+ * Renders a sandbox.json for the detected tools. Each entry is preceded by a comment
+ * naming the tool that needs it; entries shared by several tools appear once.
+ */
+export function formatToolingConfig(tooling: Tooling[]): string {
+  const section = (key: "allowedDomains" | "allowWrite", indent: string) => {
+    const seen = new Set<string>();
+    const lines: string[] = [];
+    for (const tool of tooling) {
+      const entries = tool[key].filter((entry) => !seen.has(entry));
+      if (entries.length === 0) continue;
+      lines.push(`${indent}// ${tool.name}`);
+      for (const entry of entries) {
+        seen.add(entry);
+        lines.push(`${indent}${JSON.stringify(entry)},`);
+      }
+    }
+    return lines;
+  };
+
+  return [
+    "{",
+    '  "network": {',
+    '    "allowedDomains": [',
+    ...section("allowedDomains", "      "),
+    "    ],",
+    "  },",
+    '  "filesystem": {',
+    '    "allowWrite": [',
+    ...section("allowWrite", "      "),
+    "    ],",
+    "  },",
+    "}",
+    "",
+  ].join("\n");
+}
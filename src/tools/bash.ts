@@ -1,13 +1,31 @@
 import type { AgentToolResult } from "@mariozechner/pi-agent-core";
-import { type AgentToolUpdateCallback, type ExtensionContext, type ToolDefinition, createBashTool } from "@mariozechner/pi-coding-agent";
+import {
+  type AgentToolUpdateCallback,
+  type BashOperations,
+  type ExtensionContext,
+  type ToolDefinition,
+  createBashTool,
+  createLocalBashOperations,
+} from "@mariozechner/pi-coding-agent";
 
+import { requestEscalation } from "../approval";
+import { appendAuditRecord } from "../audit-log";
 import type { SandboxState } from "../data/SandboxState";
-import { createSandboxedBashOps, findUnsandboxedCompoundMatches, isUnsandboxedCommand } from "../sandbox-ops";
+import {
+  createSandboxedBashOps,
+  findCommandRule,
+  findCompoundUnsandboxedPatterns,
+  findDeniedCommand,
+  findUnsandboxedCompoundMatches,
+  findUnsandboxedPattern,
+} from "../sandbox-ops";
+import type { SandboxViolation } from "../types";
 
 type BashParams = {
   command: string;
   timeout?: number;
   bypassSandbox?: boolean;
+  bypassReason?: string;
 };
 
 /**
@@ -34,19 +52,50 @@ function appendCompoundWarning<T>(result: AgentToolResult<T>, command: string, u
   };
 }
 
+/**
+ * Adds a `run` record with the exit code (and any sandbox violations) to the audit log
+ * whenever a command finishes.
+ */
+function withAuditedRuns(
+  operations: BashOperations,
+  state: SandboxState,
+  sandboxed: boolean,
+  getViolations?: () => SandboxViolation[],
+): BashOperations {
+  return {
+    async exec(command, cwd, options) {
+      const result = await operations.exec(command, cwd, options);
+      const violations = getViolations?.() ?? [];
+      appendAuditRecord(state, {
+        event: "run",
+        tool: "bash",
+        input: command,
+        sandboxed,
+        exitCode: result.exitCode,
+        ...(violations.length > 0 ? { violations } : {}),
+      });
+      return result;
+    },
+  };
+}
+
 export function createSandboxedBashTool(cwd: string, state: SandboxState): ToolDefinition {
   const unsafeOriginalBash = createBashTool(cwd);
-  const sandboxedBash = createBashTool(cwd, {
-    operations: createSandboxedBashOps(state),
+  const unsandboxedBash = createBashTool(cwd, {
+    operations: withAuditedRuns(createLocalBashOperations(), state, false),
   });
   return {
     ...unsafeOriginalBash,
-    description: `${unsafeOriginalBash.description} Runs the command in an OS sandbox by default. Set bypassSandbox: true if needed.`,
+    description: `${unsafeOriginalBash.description} Runs the command in an OS sandbox by default. Set bypassSandbox: true with a bypassReason if needed.`,
     parameters: {
       ...unsafeOriginalBash.parameters,
       properties: {
         ...unsafeOriginalBash.parameters.properties,
         bypassSandbox: { type: "boolean" as const, description: "Request approval to run outside the sandbox. Shows a dialog to the user." },
+        bypassReason: {
+          type: "string" as const,
+          description: "Required with bypassSandbox: why this cannot run in the sandbox. Shown to the user in the approval dialog.",
+        },
       },
     },
     async execute(
@@ -58,27 +107,85 @@ export function createSandboxedBashTool(cwd: string, state: SandboxState): ToolD
     ) {
       const unsandboxedCommands = state.config.unsandboxedCommands ?? [];
 
-      // Check if command is in auto-approved unsandboxed list
-      const isAutoApproved = isUnsandboxedCommand(params.command, unsandboxedCommands);
+      // Denied commands never run, whether the sandbox is on or bypassed
+      const denied = findDeniedCommand(params.command, state.config.deniedCommands ?? []);
+      if (denied) {
+        appendAuditRecord(state, {
+          event: "check",
+          tool: "bash",
+          input: params.command,
+          decision: "deny",
+          rule: { key: "deniedCommands", pattern: denied.pattern },
+        });
+        throw new Error(
+          `Command blocked: "${denied.subcommand}" matches deniedCommands "${denied.pattern}" in the sandbox config. ` +
+            "It is never run, not even with bypassSandbox. Do not retry it or work around it; if it is really needed, ask the user to run it.",
+        );
+      }
 
-      // If sandbox not enabled or command is auto-approved → run directly
-      if (!state.enabled || isAutoApproved) {
+      // If sandbox not enabled → run directly
+      if (!state.enabled) {
         return unsafeOriginalBash.execute(id, params, signal, onUpdate);
       }
 
-      // Default: execute in sandbox
-      if (!params.bypassSandbox) {
-        const result = await sandboxedBash.execute(id, params, signal, onUpdate);
-        return appendCompoundWarning(result, params.command, unsandboxedCommands);
+      // Check if command is in auto-approved unsandboxed list (segment by segment, if enabled)
+      const autoApprovedPattern =
+        findUnsandboxedPattern(params.command, unsandboxedCommands) ??
+        (state.config.allowCompoundCommands ? findCompoundUnsandboxedPatterns(params.command, unsandboxedCommands)?.join(", ") : undefined);
+      if (autoApprovedPattern !== undefined) {
+        appendAuditRecord(state, {
+          event: "check",
+          tool: "bash",
+          input: params.command,
+          decision: "allow",
+          rule: { key: "unsandboxedCommands", pattern: autoApprovedPattern },
+        });
+        return unsandboxedBash.execute(id, params, signal, onUpdate);
       }
 
-      // Unsandboxed run
-      if (!ctx.hasUI) {
-        throw new Error("Cannot run unsandboxed command: no UI available for approval");
+      // Default: execute in sandbox. The tool is created per call so that the violations
+      // of this run can be attached to this call's result (see the tool_result handler).
+      if (!params.bypassSandbox) {
+        const commandRule = findCommandRule(params.command, state.config);
+        appendAuditRecord(state, {
+          event: "check",
+          tool: "bash",
+          input: params.command,
+          decision: "sandbox",
+          ...(commandRule && { rule: { key: "commandRules", pattern: commandRule.patterns.join(", ") } }),
+        });
+        let violations: SandboxViolation[] = [];
+        const sandboxedBash = createBashTool(cwd, {
+          operations: withAuditedRuns(
+            createSandboxedBashOps(state, (found) => (violations = found)),
+            state,
+            true,
+            () => violations,
+          ),
+        });
+
+        try {
+          const result = await sandboxedBash.execute(id, params, signal, onUpdate);
+          return appendCompoundWarning(result, params.command, unsandboxedCommands);
+        } finally {
+          if (violations.length > 0) {
+            state.pendingViolations.set(id, violations);
+          }
+        }
       }
 
-      const approved = await state.approvalQueue.requestApproval(
-        () => ctx.ui.confirm("Unsandboxed Command", `Allow running without sandbox?\n\n${params.command}`, { signal }),
+      // Unsandboxed run
+      const approved = await requestEscalation(
+        {
+          tool: "bash",
+          target: params.command,
+          reason: params.bypassReason,
+          title: "Unsandboxed Command",
+          question: "Allow running without sandbox?",
+        },
+        state,
+        ctx,
+        cwd,
         signal,
       );
 
@@ -90,7 +197,7 @@ export function createSandboxedBashTool(cwd: string, state: SandboxState): ToolD
         throw new Error("User denied permission to run command without sandbox");
       }
 
-      return unsafeOriginalBash.execute(id, params, signal, onUpdate);
+      return unsandboxedBash.execute(id, params, signal, onUpdate);
     },
   };
 }
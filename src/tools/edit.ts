@@ -2,8 +2,11 @@ import { type AgentToolUpdateCallback, type EditToolInput, type ExtensionContext
 import { Container, Spacer, Text } from "@mariozechner/pi-tui";
 
 import type { EditDiffError, EditDiffResult } from "../../node_modules/@mariozechner/pi-coding-agent/dist/core/tools/edit-diff.js";
+import { requestEscalation } from "../approval";
+import { appendAuditRecord } from "../audit-log";
+import { resolveConfigForPath } from "../config";
 import type { SandboxState } from "../data/SandboxState";
-import { isReadAllowed, isWriteAllowed } from "../file-ops";
+import { explainWrite, isReadAllowed } from "../file-ops";
 
 const editDiffModulePath = "../../node_modules/@mariozechner/pi-coding-agent/dist/core/tools/edit-diff.js";
 
@@ -18,6 +21,7 @@ async function loadComputeEditsDiff() {
 
 type EditParams = EditToolInput & {
   bypassSandbox?: boolean;
+  bypassReason?: string;
 };
 
 type EditPreviewState =
@@ -54,7 +58,7 @@ function getPreviewState(renderState: EditToolRenderState, argsKey: string): Edi
 }
 
 async function dryRunEditPreview(args: EditToolInput, cwd: string, sandboxState: SandboxState): Promise<DryRunOutcome> {
-  if (sandboxState.enabled && !isReadAllowed(args.path, cwd, sandboxState.config)) {
+  if (sandboxState.enabled && !isReadAllowed(args.path, cwd, resolveConfigForPath(args.path, cwd, sandboxState).config)) {
     return { kind: "skipped" };
   }
 
@@ -122,12 +126,16 @@ export function createSandboxedEditTool(cwd: string, state: SandboxState) {
 
   return {
     ...unsafeOriginalEdit,
-    description: `${unsafeOriginalEdit.description} Edits in sandbox by default. Set bypassSandbox: true if needed.`,
+    description: `${unsafeOriginalEdit.description} Edits in sandbox by default. Set bypassSandbox: true with a bypassReason if needed.`,
     parameters: {
       ...unsafeOriginalEdit.parameters,
       properties: {
         ...unsafeOriginalEdit.parameters.properties,
         bypassSandbox: { type: "boolean" as const, description: "Request approval to run outside the sandbox. Shows a dialog to the user." },
+        bypassReason: {
+          type: "string" as const,
+          description: "Required with bypassSandbox: why this cannot run in the sandbox. Shown to the user in the approval dialog.",
+        },
       },
     },
     renderCall(args: RenderCallArgs, theme: RenderCallTheme, context: RenderCallContext) {
@@ -222,8 +230,21 @@ export function createSandboxedEditTool(cwd: string, state: SandboxState) {
       onUpdate: AgentToolUpdateCallback | undefined,
       ctx: ExtensionContext,
     ) {
-      // If sandbox not enabled or path is auto-approved → run directly
-      if (!state.enabled || isWriteAllowed(params.path, cwd, state.config)) {
+      // If sandbox not enabled → run directly
+      if (!state.enabled) {
+        return unsafeOriginalEdit.execute(id, params, signal, onUpdate, ctx);
+      }
+
+      // If path is auto-approved → run directly
+      const decision = explainWrite(params.path, cwd, resolveConfigForPath(params.path, cwd, state).config);
+      appendAuditRecord(state, {
+        event: "check",
+        tool: "edit",
+        input: params.path,
+        decision: decision.allowed ? "allow" : "deny",
+        rule: decision.rule,
+      });
+      if (decision.allowed) {
         return unsafeOriginalEdit.execute(id, params, signal, onUpdate, ctx);
       }
 
@@ -238,12 +259,11 @@ export function createSandboxedEditTool(cwd: string, state: SandboxState) {
       }
 
       // Unsandboxed run
-      if (!ctx.hasUI) {
-        throw new Error("Cannot run unsandboxed edit: no UI available for approval");
-      }
-
-      const approved = await state.approvalQueue.requestApproval(
-        () => ctx.ui.confirm("Unsandboxed Edit", `Allow editing without sandbox?\n\n${params.path}`, { signal }),
+      const approved = await requestEscalation(
+        { tool: "edit", target: params.path, reason: params.bypassReason, title: "Unsandboxed Edit", question: "Allow editing without sandbox?" },
+        state,
+        ctx,
+        cwd,
         signal,
       );
 
@@ -1,13 +1,17 @@
 import { type AgentToolUpdateCallback, type ExtensionContext, type ToolDefinition, createReadTool } from "@mariozechner/pi-coding-agent";
 
+import { requestEscalation } from "../approval";
+import { appendAuditRecord } from "../audit-log";
+import { resolveConfigForPath } from "../config";
 import type { SandboxState } from "../data/SandboxState";
-import { isReadAllowed } from "../file-ops";
+import { explainRead } from "../file-ops";
 
 type ReadParams = {
   path: string;
   offset?: number;
   limit?: number;
   bypassSandbox?: boolean;
+  bypassReason?: string;
 };
 
 export function createSandboxedReadTool(cwd: string, state: SandboxState): ToolDefinition {
@@ -15,12 +19,16 @@ export function createSandboxedReadTool(cwd: string, state: SandboxState): ToolD
 
   return {
     ...unsafeOriginalRead,
-    description: `${unsafeOriginalRead.description} Reads in sandbox by default. Set bypassSandbox: true if needed.`,
+    description: `${unsafeOriginalRead.description} Reads in sandbox by default. Set bypassSandbox: true with a bypassReason if needed.`,
     parameters: {
       ...unsafeOriginalRead.parameters,
       properties: {
         ...unsafeOriginalRead.parameters.properties,
         bypassSandbox: { type: "boolean" as const, description: "Request approval to run outside the sandbox. Shows a dialog to the user." },
+        bypassReason: {
+          type: "string" as const,
+          description: "Required with bypassSandbox: why this cannot run in the sandbox. Shown to the user in the approval dialog.",
+        },
       },
     },
     async execute(
@@ -30,8 +38,21 @@ export function createSandboxedReadTool(cwd: string, state: SandboxState): ToolD
       onUpdate: AgentToolUpdateCallback | undefined,
       ctx: ExtensionContext,
     ) {
-      // If sandbox not enabled or path is auto-approved → run directly
-      if (!state.enabled || isReadAllowed(params.path, cwd, state.config)) {
+      // If sandbox not enabled → run directly
+      if (!state.enabled) {
+        return unsafeOriginalRead.execute(id, params, signal, onUpdate);
+      }
+
+      // If path is auto-approved → run directly
+      const decision = explainRead(params.path, cwd, resolveConfigForPath(params.path, cwd, state).config);
+      appendAuditRecord(state, {
+        event: "check",
+        tool: "read",
+        input: params.path,
+        decision: decision.allowed ? "allow" : "deny",
+        rule: decision.rule,
+      });
+      if (decision.allowed) {
         return unsafeOriginalRead.execute(id, params, signal, onUpdate);
       }
 
@@ -41,12 +62,11 @@ export function createSandboxedReadTool(cwd: string, state: SandboxState): ToolD
       }
 
       // Unsandboxed run
-      if (!ctx.hasUI) {
-        throw new Error("Cannot run unsandboxed read: no UI available for approval");
-      }
-
-      const approved = await state.approvalQueue.requestApproval(
-        () => ctx.ui.confirm("Unsandboxed Read", `Allow reading without sandbox?\n\n${params.path}`, { signal }),
+      const approved = await requestEscalation(
+        { tool: "read", target: params.path, reason: params.bypassReason, title: "Unsandboxed Read", question: "Allow reading without sandbox?" },
+        state,
+        ctx,
+        cwd,
         signal,
       );
 
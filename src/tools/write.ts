@@ -1,12 +1,16 @@
 import { type AgentToolUpdateCallback, type ExtensionContext, type ToolDefinition, createWriteTool } from "@mariozechner/pi-coding-agent";
 
+import { requestEscalation } from "../approval";
+import { appendAuditRecord } from "../audit-log";
+import { resolveConfigForPath } from "../config";
 import type { SandboxState } from "../data/SandboxState";
-import { isWriteAllowed } from "../file-ops";
+import { explainWrite } from "../file-ops";
 
 type WriteParams = {
   path: string;
   content: string;
   bypassSandbox?: boolean;
+  bypassReason?: string;
 };
 
 export function createSandboxedWriteTool(cwd: string, state: SandboxState): ToolDefinition {
@@ -14,12 +18,16 @@ export function createSandboxedWriteTool(cwd: string, state: SandboxState): Tool
 
   return {
     ...unsafeOriginalWrite,
-    description: `${unsafeOriginalWrite.description} Writes in sandbox by default. Set bypassSandbox: true if needed.`,
+    description: `${unsafeOriginalWrite.description} Writes in sandbox by default. Set bypassSandbox: true with a bypassReason if needed.`,
     parameters: {
       ...unsafeOriginalWrite.parameters,
       properties: {
         ...unsafeOriginalWrite.parameters.properties,
         bypassSandbox: { type: "boolean" as const, description: "Request approval to run outside the sandbox. Shows a dialog to the user." },
+        bypassReason: {
+          type: "string" as const,
+          description: "Required with bypassSandbox: why this cannot run in the sandbox. Shown to the user in the approval dialog.",
+        },
       },
     },
     async execute(
@@ -29,8 +37,21 @@ export function createSandboxedWriteTool(cwd: string, state: SandboxState): Tool
       onUpdate: AgentToolUpdateCallback | undefined,
       ctx: ExtensionContext,
     ) {
-      // If sandbox not enabled or path is auto-approved → run directly
-      if (!state.enabled || isWriteAllowed(params.path, cwd, state.config)) {
+      // If sandbox not enabled → run directly
+      if (!state.enabled) {
+        return unsafeOriginalWrite.execute(id, params, signal, onUpdate);
+      }
+
+      // If path is auto-approved → run directly
+      const decision = explainWrite(params.path, cwd, resolveConfigForPath(params.path, cwd, state).config);
+      appendAuditRecord(state, {
+        event: "check",
+        tool: "write",
+        input: params.path,
+        decision: decision.allowed ? "allow" : "deny",
+        rule: decision.rule,
+      });
+      if (decision.allowed) {
         return unsafeOriginalWrite.execute(id, params, signal, onUpdate);
       }
 
@@ -40,12 +61,11 @@ export function createSandboxedWriteTool(cwd: string, state: SandboxState): Tool
       }
 
       // Unsandboxed run
-      if (!ctx.hasUI) {
-        throw new Error("Cannot run unsandboxed write: no UI available for approval");
-      }
-
-      const approved = await state.approvalQueue.requestApproval(
-        () => ctx.ui.confirm("Unsandboxed Write", `Allow writing without sandbox?\n\n${params.path}`, { signal }),
+      const approved = await requestEscalation(
+        { tool: "write", target: params.path, reason: params.bypassReason, title: "Unsandboxed Write", question: "Allow writing without sandbox?" },
+        state,
+        ctx,
+        cwd,
         signal,
       );
 
@@ -2,5 +2,209 @@ import type { SandboxRuntimeConfig } from "@anthropic-ai/sandbox-runtime";
 
 export interface SandboxConfig extends SandboxRuntimeConfig {
   enabled?: boolean;
+  strictConfig?: boolean;
   unsandboxedCommands?: string[];
+  /**
+   * Lets compound commands run outside the sandbox when every segment matches `unsandboxedCommands`
+   * and they are only joined by `&&`, `||`, `;` or `|`. Off by default.
+   */
+  allowCompoundCommands?: boolean;
+  /** Commands (in `unsandboxedCommands` pattern syntax) that are never run, sandboxed or not. */
+  deniedCommands?: string[];
+  /** Extra rules for commands that run sandboxed, keyed by command pattern, see `CommandRuleConfig`. */
+  commandRules?: Record<string, CommandRuleConfig>;
+  /** Escalation requests refused without asking, saved by the "Always deny" approval choice. */
+  alwaysDeny?: AlwaysDenyConfig;
+  /** Dismisses approval dialogs nobody answers, see `ApprovalTimeoutConfig`. */
+  approvalTimeout?: ApprovalTimeoutConfig;
+  /** Decides escalations without the approval dialog, e.g. in print or RPC mode. */
+  approver?: ApproverConfig;
+  /** Caps on escalation requests per tool, see `EscalationLimitsConfig`. */
+  escalationLimits?: EscalationLimitsConfig;
+  /** Where and for how long sandbox decisions are logged, see `AuditLogConfig`. */
+  auditLog?: AuditLogConfig;
+  /** Named layers applied on top of the merged config, see `applyProfile`. */
+  profiles?: Record<string, SandboxConfigLayer>;
+  /** Profile used when none is selected with `--sandbox-profile` or `/sandbox profile`. */
+  defaultProfile?: string;
+}
+
+/**
+ * Entries added to the sandbox policy while a command matching the rule's pattern (in
+ * `unsandboxedCommands` pattern syntax) runs, e.g. the registry and cache of `npm install`.
+ */
+export interface CommandRuleConfig {
+  allowedDomains?: string[];
+  allowWrite?: string[];
+  denyRead?: string[];
+}
+
+/**
+ * Commands (in `unsandboxedCommands` pattern syntax) and paths (in filesystem pattern
+ * syntax) for which requests to bypass the sandbox are denied without prompting.
+ */
+export interface AlwaysDenyConfig {
+  commands?: string[];
+  read?: string[];
+  write?: string[];
+}
+
+/**
+ * How long an approval dialog waits for an answer, and what happens when nobody answers.
+ */
+export interface ApprovalTimeoutConfig {
+  seconds: number;
+  /** Decision once the time is up; defaults to `"deny"`. */
+  default?: "allow" | "deny";
+}
+
+export interface EscalationLimit {
+  /** Requests allowed in the whole session. */
+  perSession?: number;
+  /** Requests allowed in any 60-second window. */
+  perMinute?: number;
+}
+
+/**
+ * Limits on escalation requests that have to be decided by the approver or the dialog.
+ * The top-level limits apply to each tool separately; a tool's own entry overrides them.
+ */
+export interface EscalationLimitsConfig extends EscalationLimit {
+  bash?: EscalationLimit;
+  read?: EscalationLimit;
+  write?: EscalationLimit;
+  edit?: EscalationLimit;
+}
+
+/**
+ * The JSONL audit log written for each session, one file per session id.
+ */
+export interface AuditLogConfig {
+  /** Defaults to `true`. */
+  enabled?: boolean;
+  /** Directory of the log files; defaults to `~/.pi/agent/sandbox-audit`. */
+  directory?: string;
+  /** Log files not written to for this many days are deleted at session start; defaults to 30. */
+  retentionDays?: number;
+}
+
+/**
+ * A non-interactive approver, consulted before the approval dialog:
+ *
+ * - `rules` - a JSON file of allow/deny patterns per tool (see `ApprovalRulesFileSchema`)
+ * - `command` - runs `command`, writes the request as JSON to its stdin and reads the decision from its stdout
+ * - `socket` - sends the request as a JSON line to a Unix socket and reads the decision line back
+ */
+export type ApproverConfig =
+  | { type: "rules"; path: string }
+  | { type: "command"; command: string[]; timeoutSeconds?: number }
+  | { type: "socket"; path: string; timeoutSeconds?: number };
+
+/**
+ * The contents of a single sandbox.json file: a partial config plus merge
+ * directives that only apply to that file (see `mergeConfigLayers`).
+ */
+export interface SandboxConfigLayer extends Partial<Omit<SandboxConfig, "network" | "filesystem">> {
+  network?: Partial<SandboxConfig["network"]>;
+  filesystem?: Partial<SandboxConfig["filesystem"]>;
+  /** Other config files merged before this one (top level of a file only). */
+  extends?: string[];
+  /** Array keys (e.g. `filesystem.denyRead`) that replace, rather than extend, inherited values. */
+  replace?: string[];
+  /** Start from an empty config instead of `DEFAULT_CONFIG`. */
+  ignoreDefaults?: boolean;
+}
+
+/**
+ * A config layer and where it came from: a file path, or `DEFAULTS_SOURCE`
+ * for the built-in defaults.
+ */
+export interface SourcedConfigLayer {
+  source: string;
+  layer: SandboxConfigLayer;
+}
+
+/**
+ * Where each entry of a merged config came from, keyed by the JSON path of the
+ * array (e.g. `filesystem.denyRead`) and then by entry. Profile names are
+ * recorded under `profiles`.
+ */
+export type ConfigSources = Record<string, Record<string, string>>;
+
+/**
+ * A problem found while reading a sandbox.json file.
+ * `path` is the JSON path of the offending value (e.g. `network.allowedDomains[0]`),
+ * `line` and `column` are 1-based positions in the file.
+ */
+export interface ConfigDiagnostic {
+  file: string;
+  path: string;
+  line: number;
+  column: number;
+  message: string;
+}
+
+/**
+ * The config entry that decided a check: `key` is the JSON path of the array
+ * (as in `ConfigSources`) and `pattern` the matching entry.
+ */
+export interface RuleMatch {
+  key: string;
+  pattern: string;
+}
+
+/**
+ * The outcome of a sandbox check and, when one applied, the rule behind it.
+ * A missing `rule` means the default for that check decided.
+ */
+export interface RuleDecision {
+  allowed: boolean;
+  rule?: RuleMatch;
+}
+
+/**
+ * Something a sandboxed bash command tried and the sandbox blocked, with the rule
+ * responsible. `rule` is missing when no rule allowed the target, e.g. a domain not in
+ * `allowedDomains` or a path outside `allowWrite`.
+ */
+export interface SandboxViolation {
+  kind: "read" | "write" | "network";
+  /** Absolute path, or host for network violations. */
+  target: string;
+  rule?: RuleMatch;
+}
+
+/**
+ * A change made with `/sandbox allow` or `/sandbox deny`, e.g. allowing the domain `github.com`.
+ */
+export interface SandboxRule {
+  action: "allow" | "deny";
+  kind: "domain" | "read" | "write" | "command";
+  value: string;
+}
+
+/** The tools that can ask to bypass the sandbox. */
+export type EscalationTool = "bash" | "read" | "write" | "edit";
+
+/** What a request to bypass the sandbox is for: a bash command, or reading or writing a path. */
+export type EscalationKind = "command" | "read" | "write";
+
+/**
+ * An escalation request counted against `escalationLimits`; `time` is epoch ms.
+ */
+export interface EscalationRecord {
+  tool: EscalationTool;
+  time: number;
+}
+
+/**
+ * A decision from the approval dialog that applies to the rest of the session.
+ * `key` is the command or absolute path, see `getEscalationKey`.
+ */
+export interface ApprovalGrant {
+  kind: EscalationKind;
+  key: string;
+  allow: boolean;
+  /** The agent's `bypassReason` for the request that was answered. */
+  reason: string;
 }
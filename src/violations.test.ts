@@ -0,0 +1,100 @@
+import { homedir } from "node:os";
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_CONFIG } from "./config";
+import type { SandboxConfig } from "./types";
+import { collectSandboxViolations, formatViolations, parseStderrViolations, parseViolationLine, recordBlockedHost } from "./violations";
+
+const cwd = "/projects/myapp";
+const config: SandboxConfig = {
+  ...DEFAULT_CONFIG,
+  network: { allowedDomains: ["github.com"], deniedDomains: ["evil.com"] },
+  filesystem: { denyRead: ["~/.ssh"], allowWrite: ["."], denyWrite: [".env"] },
+};
+
+describe("parseViolationLine", () => {
+  it("parses file and network denials", () => {
+    expect(parseViolationLine("cat(123) deny(1) file-read-data /Users/me/.ssh/id_rsa")).toEqual({ kind: "read", target: "/Users/me/.ssh/id_rsa" });
+    expect(parseViolationLine("touch(123) deny(1) file-write-create /etc/hosts")).toEqual({ kind: "write", target: "/etc/hosts" });
+    expect(parseViolationLine("curl(123) deny(1) network-outbound 140.82.112.3:443")).toEqual({ kind: "network", target: "140.82.112.3" });
+    expect(parseViolationLine("curl(123) deny(1) network-outbound [::1]:8080")).toEqual({ kind: "network", target: "::1" });
+  });
+
+  it("ignores other operations and unix sockets", () => {
+    expect(parseViolationLine("node(123) deny(1) mach-lookup com.apple.coreservices")).toBeUndefined();
+    expect(parseViolationLine("node(123) deny(1) network-outbound /private/var/run/syslog")).toBeUndefined();
+    expect(parseViolationLine("unrelated")).toBeUndefined();
+  });
+});
+
+describe("parseStderrViolations", () => {
+  it("finds paths the rules deny", () => {
+    const stderr = [
+      `cat: ${homedir()}/.ssh/id_rsa: Permission denied`,
+      "touch: cannot touch '/etc/hosts': Read-only file system",
+      "bash: .env: Read-only file system",
+    ].join("\n");
+
+    expect(parseStderrViolations(stderr, config, cwd)).toEqual([
+      { kind: "read", target: `${homedir()}/.ssh/id_rsa`, rule: { key: "filesystem.denyRead", pattern: "~/.ssh" } },
+      { kind: "write", target: "/etc/hosts" },
+      { kind: "write", target: "/projects/myapp/.env", rule: { key: "filesystem.denyWrite", pattern: ".env" } },
+    ]);
+  });
+
+  it("ignores permission errors the sandbox did not cause", () => {
+    expect(parseStderrViolations("rm: cannot remove './build/x': Permission denied\nerror: something: Permission denied", config, cwd)).toEqual([]);
+  });
+});
+
+describe("collectSandboxViolations", () => {
+  it("combines log events, stderr and blocked hosts of the run, without duplicates", () => {
+    const events = [
+      { line: "touch(1) deny(1) file-write-create /etc/hosts", timestamp: new Date(2_000) },
+      { line: "touch(1) deny(1) file-write-create /etc/old", timestamp: new Date(500) },
+    ];
+    const stderr = "touch: cannot touch '/etc/hosts': Read-only file system";
+
+    expect(collectSandboxViolations(events, stderr, ["example.com", "example.com"], 1_000, config, cwd)).toEqual([
+      { kind: "write", target: "/etc/hosts", rule: undefined },
+      { kind: "network", target: "example.com", rule: undefined },
+    ]);
+  });
+});
+
+describe("recordBlockedHost", () => {
+  it("attributes hosts to the only running command", () => {
+    const state = { blockedHostsByRun: new Map([["run-1", [] as string[]]]) };
+    recordBlockedHost("example.com", state);
+    expect(state.blockedHostsByRun.get("run-1")).toEqual(["example.com"]);
+  });
+
+  it("attributes hosts to no command while several run", () => {
+    const state = {
+      blockedHostsByRun: new Map([
+        ["run-1", [] as string[]],
+        ["run-2", [] as string[]],
+      ]),
+    };
+    recordBlockedHost("example.com", state);
+    expect([...state.blockedHostsByRun.values()]).toEqual([[], []]);
+  });
+});
+
+describe("formatViolations", () => {
+  it("lists each violation with the rule that blocked it", () => {
+    expect(
+      formatViolations([
+        { kind: "read", target: "/home/me/.ssh/id_rsa", rule: { key: "filesystem.denyRead", pattern: "~/.ssh" } },
+        { kind: "network", target: "example.com" },
+      ]),
+    ).toBe(
+      [
+        "<sandbox_violations>",
+        "read denied: /home/me/.ssh/id_rsa (filesystem.denyRead: ~/.ssh)",
+        "network denied: example.com (not in network.allowedDomains)",
+        "</sandbox_violations>",
+      ].join("\n"),
+    );
+  });
+});
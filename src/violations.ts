@@ -0,0 +1,136 @@
+import type { SandboxViolationEvent } from "@anthropic-ai/sandbox-runtime";
+
+import type { SandboxState } from "./data/SandboxState";
+import { explainRead, explainWrite, resolvePath } from "./file-ops";
+import { explainDomain } from "./network-ops";
+import type { SandboxConfig, SandboxViolation } from "./types";
+
+/**
+ * Parses a macOS sandbox log line such as `cat(123) deny(1) file-read-data /Users/me/.ssh/id_rsa`.
+ */
+export function parseViolationLine(line: string): Pick<SandboxViolation, "kind" | "target"> | undefined {
+  const match = line.match(/deny\(\d+\)\s+(\S+)\s+(.+)$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, operation, target] = match;
+  if (operation.startsWith("file-read")) {
+    return { kind: "read", target: target.trim() };
+  }
+  if (operation.startsWith("file-write")) {
+    return { kind: "write", target: target.trim() };
+  }
+  if (operation.startsWith("network-outbound") && !target.startsWith("/")) {
+    // `1.2.3.4:443`, `example.com:443` or `[::1]:443`
+    return {
+      kind: "network",
+      target: target
+        .trim()
+        .replace(/:\d+$/, "")
+        .replace(/^\[(.*)\]$/, "$1"),
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Finds paths in error messages like `touch: cannot touch '/etc/x': Read-only file system`
+ * or `cat: /root/.ssh/id_rsa: Permission denied`, which is how blocked file access shows
+ * up on Linux. Only paths that the sandbox rules actually deny are returned, since
+ * permission errors also have causes outside the sandbox.
+ */
+export function parseStderrViolations(stderr: string, config: SandboxConfig, cwd: string): SandboxViolation[] {
+  const violations: SandboxViolation[] = [];
+  const pattern = /(?:'([^'\n]+)'|([^\s:'][^:'\n]*)): (Read-only file system|Permission denied|Operation not permitted)/g;
+
+  for (const match of stderr.matchAll(pattern)) {
+    const path = (match[1] ?? match[2]).trim();
+    if (!path.startsWith("/") && !path.startsWith("~") && !path.startsWith(".")) {
+      continue;
+    }
+
+    const absolutePath = resolvePath(path, cwd);
+    const read = explainRead(absolutePath, cwd, config);
+    if (!read.allowed && match[3] !== "Read-only file system") {
+      violations.push({ kind: "read", target: absolutePath, rule: read.rule });
+      continue;
+    }
+    const write = explainWrite(absolutePath, cwd, config);
+    if (!write.allowed) {
+      violations.push({ kind: "write", target: absolutePath, rule: write.rule });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Attaches the rule that blocked a violation reported by the runtime.
+ */
+function explainViolation({ kind, target }: Pick<SandboxViolation, "kind" | "target">, config: SandboxConfig, cwd: string): SandboxViolation {
+  const decision =
+    kind === "network" ? explainDomain(target, config) : kind === "read" ? explainRead(target, cwd, config) : explainWrite(target, cwd, config);
+  return { kind, target, rule: decision.allowed ? undefined : decision.rule };
+}
+
+/**
+ * Attributes a host the network proxy blocked to the sandboxed command that is running.
+ * The proxy is shared by all sandboxed commands and cannot tell them apart, so while
+ * several run at once the host is attributed to none of them; it is still in the audit
+ * log and `/sandbox report`.
+ */
+export function recordBlockedHost(host: string, state: Pick<SandboxState, "blockedHostsByRun">) {
+  if (state.blockedHostsByRun.size === 1) {
+    const [hosts] = state.blockedHostsByRun.values();
+    hosts.push(host);
+  }
+}
+
+/**
+ * Collects the violations of one sandboxed run: events from the runtime's log monitor
+ * (macOS) for the run's script since `since`, permission errors in its stderr (Linux),
+ * and the hosts the network proxy blocked for it (see `recordBlockedHost`). Duplicates
+ * are removed.
+ */
+export function collectSandboxViolations(
+  events: SandboxViolationEvent[],
+  stderr: string,
+  blockedHosts: string[],
+  since: number,
+  config: SandboxConfig,
+  cwd: string,
+): SandboxViolation[] {
+  const fromEvents = events
+    .filter((event) => event.timestamp.getTime() >= since)
+    .flatMap((event) => {
+      const parsed = parseViolationLine(event.line);
+      return parsed ? [explainViolation(parsed, config, cwd)] : [];
+    });
+  const fromNetwork = blockedHosts.map((host) => explainViolation({ kind: "network", target: host }, config, cwd));
+
+  const unique = new Map<string, SandboxViolation>();
+  for (const violation of [...fromEvents, ...parseStderrViolations(stderr, config, cwd), ...fromNetwork]) {
+    const key = `${violation.kind}:${violation.target}`;
+    if (!unique.has(key)) {
+      unique.set(key, violation);
+    }
+  }
+  return [...unique.values()];
+}
+
+const UNMATCHED_REASONS: Record<SandboxViolation["kind"], string> = {
+  read: "blocked by the sandbox",
+  write: "not in filesystem.allowWrite",
+  network: "not in network.allowedDomains",
+};
+
+/**
+ * Formats violations for the command output, e.g. `read denied: /home/me/.ssh/id_rsa (filesystem.denyRead: ~/.ssh)`.
+ */
+export function formatViolations(violations: SandboxViolation[]): string {
+  const lines = violations.map(({ kind, target, rule }) => {
+    const reason = rule ? `${rule.key}: ${rule.pattern}` : UNMATCHED_REASONS[kind];
+    return `${kind} denied: ${target} (${reason})`;
+  });
+  return ["<sandbox_violations>", ...lines, "</sandbox_violations>"].join("\n");
+}